@@ -0,0 +1,213 @@
+// api/src/attest.ts
+import fs from "node:fs";
+import { createPrivateKey, sign as cryptoSign, type KeyObject } from "node:crypto";
+import nacl from "tweetnacl";
+import { bytesToHex, hexToBytes } from "@spacescrypt/protocol";
+import { config } from "./config.js";
+import type { TreeHeadClaims } from "./merkle.js";
+
+// Key ring file (config/attestation-keys.json, or ATTESTATION_KEYS as inline JSON):
+// {
+//   "activeKid": "2026-10",
+//   "keys": [
+//     { "kid": "2026-10", "seedHex": "<32-byte Ed25519 seed>" },
+//     { "kid": "2026-04", "publicKeyHex": "<32-byte key, verify-only>" }
+//   ]
+// }
+// Rotate by adding a new key, switching activeKid, and keeping the old entry
+// (seed or public key only) until the tokens it signed have expired.
+type KeyFileEntry = { kid: string; seedHex?: string; publicKeyHex?: string };
+type KeyFile = { activeKid: string; keys: KeyFileEntry[] };
+
+// `signer` is the secret key imported into node:crypto, built on first use:
+// OpenSSL signs much faster than tweetnacl, which matters for batch verify.
+type AttestationKey = { kid: string; publicKey: Uint8Array; secretKey?: Uint8Array; signer?: KeyObject };
+
+export type AttestationClaims = {
+  iss: string;
+  sub: string;          // beaconIdHex
+  beacon_id: string;
+  nonce: string;
+  beacon_ts_ms: number;
+  verified_at_ms: number;
+  msg_v?: number;       // signed message format of the proof
+  session?: string;     // v2 session binding, when the proof carried one
+  iat: number;
+  exp: number;
+};
+
+// Minted by /api/zones/:zoneId/verify once a quorum of the zone's beacons
+// proved presence in one session
+export type ZoneAttestationClaims = {
+  iss: string;
+  sub: string;          // "zone:" + zoneId
+  zone_id: string;
+  session: string;
+  beacons: string[];    // the beacons that made up the quorum
+  verified_at_ms: number;
+  iat: number;
+  exp: number;
+};
+
+export type AttestationError = "malformed_token" | "unknown_kid" | "bad_signature" | "token_expired";
+
+const KEYS = new Map<string, AttestationKey>();
+let activeKid = "";
+
+function b64url(b: Uint8Array | string): string {
+  return Buffer.from(b).toString("base64url");
+}
+
+function readKeyFile(file: string): KeyFile | undefined {
+  if (process.env.ATTESTATION_KEYS) return JSON.parse(process.env.ATTESTATION_KEYS) as KeyFile;
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as KeyFile;
+}
+
+export function loadAttestationKeys(file = config.attestationKeysFile) {
+  KEYS.clear();
+  const kf = readKeyFile(file);
+  if (!kf) {
+    // No configured key: tokens only verify against this process's JWKS.
+    const kp = nacl.sign.keyPair();
+    activeKid = `ephemeral-${bytesToHex(kp.publicKey).slice(0, 8)}`;
+    KEYS.set(activeKid, { kid: activeKid, publicKey: kp.publicKey, secretKey: kp.secretKey });
+    console.warn(`Attestation keys not found at ${file}. Using ephemeral key ${activeKid}.`);
+    return;
+  }
+
+  for (const k of kf.keys) {
+    if (!k.kid) throw new Error("Attestation key without kid");
+    if (k.seedHex) {
+      if (!/^[0-9a-f]{64}$/i.test(k.seedHex)) throw new Error(`Bad seedHex for attestation key ${k.kid}`);
+      const kp = nacl.sign.keyPair.fromSeed(hexToBytes(k.seedHex));
+      KEYS.set(k.kid, { kid: k.kid, publicKey: kp.publicKey, secretKey: kp.secretKey });
+    } else if (k.publicKeyHex) {
+      if (!/^[0-9a-f]{64}$/i.test(k.publicKeyHex)) throw new Error(`Bad publicKeyHex for attestation key ${k.kid}`);
+      KEYS.set(k.kid, { kid: k.kid, publicKey: hexToBytes(k.publicKeyHex) });
+    } else {
+      throw new Error(`Attestation key ${k.kid} needs seedHex or publicKeyHex`);
+    }
+  }
+  if (!KEYS.get(kf.activeKid)?.secretKey) {
+    throw new Error(`activeKid ${kf.activeKid} must reference a key with seedHex`);
+  }
+  activeKid = kf.activeKid;
+  console.log(`Loaded ${KEYS.size} attestation key(s), active kid ${activeKid}`);
+}
+
+// Presence at one beacon, minted by /api/verify
+export function signAttestation(p: {
+  beaconIdHex: string;
+  nonceHex: string;
+  beaconTsMs: number;
+  verifiedAtMs?: number;
+  msgVersion?: number;
+  sessionHex?: string;
+}): string {
+  const verifiedAtMs = p.verifiedAtMs ?? Date.now();
+  const iat = Math.floor(verifiedAtMs / 1000);
+  return signToken({
+    iss: config.attestationIssuer,
+    sub: p.beaconIdHex,
+    beacon_id: p.beaconIdHex,
+    nonce: p.nonceHex,
+    beacon_ts_ms: p.beaconTsMs,
+    verified_at_ms: verifiedAtMs,
+    msg_v: p.msgVersion,
+    session: p.sessionHex,
+    iat,
+    exp: iat + config.attestationTtlS,
+  } satisfies AttestationClaims);
+}
+
+export function signZoneAttestation(p: { zoneId: string; sessionHex: string; beacons: string[]; verifiedAtMs?: number }): string {
+  const verifiedAtMs = p.verifiedAtMs ?? Date.now();
+  const iat = Math.floor(verifiedAtMs / 1000);
+  return signToken({
+    iss: config.attestationIssuer,
+    sub: `zone:${p.zoneId}`,
+    zone_id: p.zoneId,
+    session: p.sessionHex,
+    beacons: p.beacons,
+    verified_at_ms: verifiedAtMs,
+    iat,
+    exp: iat + config.attestationTtlS,
+  } satisfies ZoneAttestationClaims);
+}
+
+// Transparency log tree head. No exp: a tree head stays a valid commitment
+// to that log state, and `sub` keeps it from passing as an attestation.
+export function signTreeHead(p: { treeSize: number; rootHash: string; timestampMs: number }): string {
+  return signToken({
+    iss: config.attestationIssuer,
+    sub: "log:sth",
+    tree_size: p.treeSize,
+    root_hash: p.rootHash,
+    timestamp_ms: p.timestampMs,
+    iat: Math.floor(p.timestampMs / 1000),
+  } satisfies TreeHeadClaims);
+}
+
+// Compact EdDSA JWT
+function signToken(claims: AttestationClaims | ZoneAttestationClaims | TreeHeadClaims): string {
+  const key = KEYS.get(activeKid);
+  if (!key?.secretKey) throw new Error("No active attestation key loaded");
+  const header = { alg: "EdDSA", typ: "JWT", kid: key.kid };
+  const signingInput = `${b64url(JSON.stringify(header))}.${b64url(JSON.stringify(claims))}`;
+  key.signer ??= createPrivateKey({
+    key: { kty: "OKP", crv: "Ed25519", d: b64url(key.secretKey.subarray(0, 32)), x: b64url(key.publicKey) },
+    format: "jwk",
+  });
+  const sig = cryptoSign(null, Buffer.from(signingInput), key.signer);
+  return `${signingInput}.${b64url(sig)}`;
+}
+
+export function verifyAttestation(
+  token: string,
+  nowMs = Date.now()
+): { ok: true; kid: string; claims: AttestationClaims | ZoneAttestationClaims } | { ok: false; error: AttestationError } {
+  const parts = token.split(".");
+  if (parts.length !== 3) return { ok: false, error: "malformed_token" };
+
+  let header: { alg?: string; kid?: string };
+  let claims: AttestationClaims | ZoneAttestationClaims;
+  try {
+    header = JSON.parse(Buffer.from(parts[0], "base64url").toString("utf8"));
+    claims = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, error: "malformed_token" };
+  }
+  // JSON.parse happily returns null, numbers or strings
+  if (!header || typeof header !== "object" || !claims || typeof claims !== "object") {
+    return { ok: false, error: "malformed_token" };
+  }
+  if (header.alg !== "EdDSA" || typeof header.kid !== "string" || !header.kid) return { ok: false, error: "malformed_token" };
+
+  const key = KEYS.get(header.kid);
+  if (!key) return { ok: false, error: "unknown_kid" };
+
+  const sig = new Uint8Array(Buffer.from(parts[2], "base64url"));
+  const signingInput = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  if (sig.length !== 64 || !nacl.sign.detached.verify(signingInput, sig, key.publicKey)) {
+    return { ok: false, error: "bad_signature" };
+  }
+  if (typeof claims.exp !== "number" || nowMs >= claims.exp * 1000) {
+    return { ok: false, error: "token_expired" };
+  }
+  return { ok: true, kid: key.kid, claims };
+}
+
+// RFC 8037 OKP keys, for relying parties that verify tokens themselves
+export function getJwks() {
+  return {
+    keys: [...KEYS.values()].map(k => ({
+      kty: "OKP",
+      crv: "Ed25519",
+      alg: "EdDSA",
+      use: "sig",
+      kid: k.kid,
+      x: b64url(k.publicKey),
+    })),
+  };
+}
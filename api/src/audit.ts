@@ -0,0 +1,203 @@
+// api/src/audit.ts
+import type { MsgVersion, VerificationBucket, VerificationErrorCode, VerificationRecord } from "@spacescrypt/protocol";
+import { getDb, ensureColumn, transaction } from "./db.js";
+
+export type { VerificationBucket, VerificationRecord };
+
+export type VerificationQuery = {
+  beaconIdHex?: string;
+  tenantId?: string;
+  fromMs?: number;
+  toMs?: number;
+  result?: "ok" | "fail";
+  cursor?: string;  // id of the last row of the previous page
+  limit?: number;
+};
+
+type Row = {
+  id: number;
+  server_time_ms: number;
+  beacon_id: string | null;
+  nonce: string | null;
+  beacon_ts_ms: string | null;
+  sig: string | null;
+  msg_version: MsgVersion | null;
+  session: string | null;
+  result: "ok" | "fail";
+  error: VerificationErrorCode | null;
+  client_ip: string | null;
+  tenant_id: string | null;
+  zone_id: string | null;
+  zone_session: string | null;
+  nonce_source: string | null;
+  nonce_receipt: string | null;
+};
+
+export const CSV_COLUMNS = [
+  "id", "serverTimeMs", "beaconIdHex", "nonceHex", "tsMs", "sigHex", "result", "error", "clientIp",
+  "nonceSource", "nonceReceipt", "msgVersion", "sessionHex", "tenantId", "zoneId", "zoneSessionHex",
+] as const;
+
+export function initAuditLog() {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS verifications (
+      id             INTEGER PRIMARY KEY AUTOINCREMENT,
+      server_time_ms INTEGER NOT NULL,
+      beacon_id      TEXT,
+      nonce          TEXT,
+      beacon_ts_ms   TEXT,
+      sig            TEXT,
+      result         TEXT NOT NULL CHECK (result IN ('ok', 'fail')),
+      error          TEXT,
+      client_ip      TEXT
+    );
+    CREATE INDEX IF NOT EXISTS verifications_beacon_time ON verifications (beacon_id, server_time_ms);
+    CREATE INDEX IF NOT EXISTS verifications_time ON verifications (server_time_ms);
+  `);
+  ensureColumn("verifications", "nonce_source", "TEXT");
+  ensureColumn("verifications", "nonce_receipt", "TEXT");
+  ensureColumn("verifications", "msg_version", "INTEGER");
+  ensureColumn("verifications", "session", "TEXT");
+  ensureColumn("verifications", "tenant_id", "TEXT");
+  ensureColumn("verifications", "zone_id", "TEXT");
+  ensureColumn("verifications", "zone_session", "TEXT");
+}
+
+function fromRow(r: Row): VerificationRecord {
+  return {
+    id: r.id,
+    serverTimeMs: r.server_time_ms,
+    beaconIdHex: r.beacon_id,
+    nonceHex: r.nonce,
+    tsMs: r.beacon_ts_ms,
+    sigHex: r.sig,
+    msgVersion: r.msg_version ?? 1,
+    sessionHex: r.session,
+    result: r.result,
+    error: r.error,
+    clientIp: r.client_ip,
+    tenantId: r.tenant_id,
+    zoneId: r.zone_id,
+    zoneSessionHex: r.zone_session,
+    nonceSource: r.nonce_source,
+    nonceReceipt: r.nonce_receipt ? JSON.parse(r.nonce_receipt) : null,
+  };
+}
+
+export function recordVerification(rec: Omit<VerificationRecord, "id">): number {
+  const info = getDb().prepare(`
+    INSERT INTO verifications
+      (server_time_ms, beacon_id, nonce, beacon_ts_ms, sig, result, error, client_ip, nonce_source, nonce_receipt,
+       msg_version, session, tenant_id, zone_id, zone_session)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    rec.serverTimeMs,
+    rec.beaconIdHex?.toLowerCase() ?? null,
+    rec.nonceHex?.toLowerCase() ?? null,
+    rec.tsMs,
+    rec.sigHex?.toLowerCase() ?? null,
+    rec.result,
+    rec.error,
+    rec.clientIp,
+    rec.nonceSource,
+    rec.nonceReceipt ? JSON.stringify(rec.nonceReceipt) : null,
+    rec.msgVersion,
+    rec.sessionHex?.toLowerCase() ?? null,
+    rec.tenantId ?? null,
+    rec.zoneId ?? null,
+    rec.zoneSessionHex?.toLowerCase() ?? null,
+  );
+  return Number(info.lastInsertRowid);
+}
+
+// Batch insert in a single transaction, e.g. for /api/verify/batch
+export function recordVerifications(recs: Omit<VerificationRecord, "id">[]): number[] {
+  return transaction(() => recs.map(r => recordVerification(r)));
+}
+
+function whereClause(q: VerificationQuery) {
+  const conds: string[] = [];
+  const args: (string | number)[] = [];
+  if (q.beaconIdHex) { conds.push("beacon_id = ?"); args.push(q.beaconIdHex.toLowerCase()); }
+  if (q.tenantId) { conds.push("tenant_id = ?"); args.push(q.tenantId); }
+  if (q.fromMs !== undefined) { conds.push("server_time_ms >= ?"); args.push(q.fromMs); }
+  if (q.toMs !== undefined) { conds.push("server_time_ms < ?"); args.push(q.toMs); }
+  if (q.result) { conds.push("result = ?"); args.push(q.result); }
+  if (q.cursor) { conds.push("id < ?"); args.push(Number(q.cursor)); }
+  return { sql: conds.length ? `WHERE ${conds.join(" AND ")}` : "", args };
+}
+
+// Newest first. nextCursor is set when more rows may follow.
+export function queryVerifications(q: VerificationQuery): { items: VerificationRecord[]; nextCursor: string | null } {
+  const limit = Math.min(Math.max(q.limit ?? 100, 1), 1000);
+  const { sql, args } = whereClause(q);
+  const rows = getDb()
+    .prepare(`SELECT * FROM verifications ${sql} ORDER BY id DESC LIMIT ?`)
+    .all(...args, limit) as Row[];
+  const items = rows.map(fromRow);
+  const nextCursor = items.length === limit ? String(items[items.length - 1].id) : null;
+  return { items, nextCursor };
+}
+
+
+// Success/failure counts per time bucket (aligned to epoch multiples of
+// bucketMs), oldest first. Empty buckets are omitted.
+export function countVerifications(q: Omit<VerificationQuery, "cursor" | "limit">, bucketMs: number): VerificationBucket[] {
+  const { sql, args } = whereClause(q);
+  return getDb().prepare(`
+    SELECT server_time_ms - server_time_ms % ? AS startMs, SUM(result = 'ok') AS ok, SUM(result = 'fail') AS fail
+    FROM verifications ${sql} GROUP BY startMs ORDER BY startMs
+  `).all(bucketMs, ...args) as VerificationBucket[];
+}
+
+export function getVerification(id: number): VerificationRecord | undefined {
+  const r = getDb().prepare("SELECT * FROM verifications WHERE id = ?").get(id) as Row | undefined;
+  return r && fromRow(r);
+}
+
+// Nonces of one beacon that failed with any of these errors since sinceMs;
+// a proof replayed over the same nonce counts once
+export function countErrors(beaconIdHex: string, errors: VerificationErrorCode[], sinceMs: number): number {
+  const row = getDb().prepare(`
+    SELECT COUNT(DISTINCT nonce) AS n FROM verifications
+    WHERE beacon_id = ? AND server_time_ms >= ? AND error IN (${errors.map(() => "?").join(", ")})
+  `).get(beaconIdHex.toLowerCase(), sinceMs, ...errors) as { n: number };
+  return row.n;
+}
+
+// Whether the nonce already failed with one of these errors (since sinceMs)
+// before verification `beforeId`
+export function failedBefore(
+  beaconIdHex: string, nonceHex: string, errors: VerificationErrorCode[], sinceMs: number, beforeId: number
+): boolean {
+  return getDb().prepare(`
+    SELECT 1 FROM verifications
+    WHERE beacon_id = ? AND server_time_ms >= ? AND nonce = ? AND id < ? AND error IN (${errors.map(() => "?").join(", ")})
+    LIMIT 1
+  `).get(beaconIdHex.toLowerCase(), sinceMs, nonceHex.toLowerCase(), beforeId, ...errors) !== undefined;
+}
+
+// Every matching row (ignores limit), for CSV/NDJSON export
+export function* iterateVerifications(q: Omit<VerificationQuery, "limit">): Generator<VerificationRecord> {
+  const { sql, args } = whereClause(q);
+  const stmt = getDb().prepare(`SELECT * FROM verifications ${sql} ORDER BY id DESC`);
+  for (const r of stmt.iterate(...args)) yield fromRow(r as Row);
+}
+
+// Failed requests keep the client's raw strings, so a cell that a
+// spreadsheet would run as a formula is prefixed with ' (numbers are ours)
+function csvCell(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  let s = typeof v === "object" ? JSON.stringify(v) : String(v);
+  if (typeof v === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function* toCsv(recs: Iterable<VerificationRecord>): Generator<string> {
+  yield CSV_COLUMNS.join(",") + "\n";
+  for (const r of recs) yield CSV_COLUMNS.map(c => csvCell(r[c])).join(",") + "\n";
+}
+
+export function* toNdjson(recs: Iterable<VerificationRecord>): Generator<string> {
+  for (const r of recs) yield JSON.stringify(r) + "\n";
+}
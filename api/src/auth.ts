@@ -0,0 +1,98 @@
+// api/src/auth.ts
+import { timingSafeEqual, createHash } from "node:crypto";
+import type { FastifyReply, FastifyRequest } from "fastify";
+import { config } from "./config.js";
+import { authenticateApiKey, type Tenant } from "./tenants.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    // Relying party resolved by tenantAuth; null for anonymous calls
+    tenant: Tenant | null;
+    // Which of the tenant's API keys made the call, for per-key rate limits
+    apiKeyId: string | null;
+  }
+}
+
+function sha256(s: string): Buffer {
+  return createHash("sha256").update(s).digest();
+}
+
+export function bearerToken(req: FastifyRequest): string | undefined {
+  const h = req.headers.authorization;
+  return h?.startsWith("Bearer ") ? h.slice(7).trim() : undefined;
+}
+
+// preHandler for operator-only routes: `Authorization: Bearer $ADMIN_TOKEN`.
+// With no ADMIN_TOKEN configured the admin surface is disabled entirely.
+export async function requireAdmin(req: FastifyRequest, res: FastifyReply) {
+  if (!config.adminToken) {
+    return res.code(503).send({ ok: false, error: "admin_disabled" });
+  }
+  if (!isAdminToken(bearerToken(req))) {
+    return res.code(401).send({ ok: false, error: "unauthorized" });
+  }
+}
+
+// Compare digests so the check is constant-time regardless of token length
+function tokenMatches(token: string | undefined, expected: string): boolean {
+  return !!expected && !!token && timingSafeEqual(sha256(token), sha256(expected));
+}
+
+function isAdminToken(token: string | undefined): boolean {
+  return tokenMatches(token, config.adminToken);
+}
+
+// preHandler for GET /metrics: `Authorization: Bearer $METRICS_TOKEN`, or
+// open when no METRICS_TOKEN is configured
+export async function metricsAuth(req: FastifyRequest, res: FastifyReply) {
+  if (config.metricsToken && !tokenMatches(bearerToken(req), config.metricsToken)) {
+    return res.code(401).send({ ok: false, error: "unauthorized" });
+  }
+}
+
+// preHandler for relying-party routes: `X-Api-Key: sck_...`. Without a key the
+// call is anonymous (unless REQUIRE_API_KEY); with one, it must be valid and
+// the browser Origin, if any, must be one the tenant registered.
+export async function tenantAuth(req: FastifyRequest, res: FastifyReply) {
+  req.tenant = null;
+  req.apiKeyId = null;
+  const apiKey = req.headers["x-api-key"];
+  if (typeof apiKey !== "string" || !apiKey) {
+    if (config.requireApiKey) return res.code(401).send({ ok: false, error: "api_key_required" });
+    return;
+  }
+  const auth = authenticateApiKey(apiKey);
+  if (!auth.ok) return res.code(401).send({ ok: false, error: auth.error });
+  const origin = req.headers.origin;
+  if (origin && auth.tenant.origins.length && !auth.tenant.origins.includes(origin)) {
+    return res.code(403).send({ ok: false, error: "origin_not_allowed" });
+  }
+  req.tenant = auth.tenant;
+  req.apiKeyId = auth.keyId;
+}
+
+// preHandler for reports open to operators (admin token: everything) and
+// relying parties (X-Api-Key: their own data, via req.tenant)
+export async function adminOrTenantAuth(req: FastifyRequest, res: FastifyReply) {
+  req.tenant = null;
+  req.apiKeyId = null;
+  if (isAdminToken(bearerToken(req))) return;
+  if (typeof req.headers["x-api-key"] !== "string") return res.code(401).send({ ok: false, error: "unauthorized" });
+  return tenantAuth(req, res);
+}
+
+export type StreamViewer = { kind: "admin" } | { kind: "tenant"; tenant: Tenant };
+
+// Who is reading the live event stream: an operator (every event) or a tenant
+// (its own beacons only). EventSource and browser WebSockets cannot set
+// headers, so either credential may also come as ?access_token=.
+export function streamViewer(req: FastifyRequest): { ok: true; viewer: StreamViewer } | { ok: false; error: string } {
+  const { access_token: queryToken } = req.query as { access_token?: string };
+  const apiKey = req.headers["x-api-key"];
+  const token = bearerToken(req) ?? (typeof apiKey === "string" ? apiKey : undefined) ?? queryToken;
+  if (!token) return { ok: false, error: "unauthorized" };
+  if (isAdminToken(token)) return { ok: true, viewer: { kind: "admin" } };
+  if (!token.startsWith("sck_")) return { ok: false, error: "unauthorized" };
+  const auth = authenticateApiKey(token);
+  return auth.ok ? { ok: true, viewer: { kind: "tenant", tenant: auth.tenant } } : { ok: false, error: auth.error };
+}
@@ -0,0 +1,242 @@
+// api/src/beaconhealth.ts
+import type { VerificationErrorCode } from "@spacescrypt/protocol";
+import { countErrors, failedBefore } from "./audit.js";
+import { config } from "./config.js";
+import { getDb } from "./db.js";
+import { publish, subscribe, type BeaconAlert, type VerificationOutcome } from "./events.js";
+import { getBeacon, listBeacons } from "./registry.js";
+
+// What each proof says about the beacon that signed it: when it was last
+// seen and last verified, how far its clock is off, and whether its proofs
+// keep failing. Fed from the event bus, so every verify route counts. Only
+// proofs whose signature was checked count: nonce, timestamp and request
+// errors are the client's, and anyone can send them. A bad proof replayed
+// over one nonce counts once.
+//
+// Clock drift is tsMs minus server time at verification, averaged over
+// verified proofs only (a failed proof's timestamp is not authenticated). It
+// includes the BLE round trip, so a healthy beacon reads slightly behind.
+export type { BeaconAlert };
+export type AlertKind = BeaconAlert["kind"];
+
+export type BeaconHealth = {
+  beaconIdHex: string;
+  okCount: number;
+  failCount: number;              // signature failures (bad_signature, key_revoked)
+  failureStreak: number;          // signature failures since the last success
+  lastSeenAtMs: number | null;    // last proof whose signature was checked
+  lastOkAtMs: number | null;
+  lastFailureAtMs: number | null;
+  lastError: string | null;
+  clockDriftMs: number | null;    // positive: the beacon's clock is ahead
+  driftSamples: number;
+  alerts: BeaconAlert[];          // open ones
+};
+
+type HealthRow = {
+  beacon_id: string;
+  ok_count: number;
+  fail_count: number;
+  failure_streak: number;
+  last_seen_at_ms: number | null;
+  last_ok_at_ms: number | null;
+  last_failure_at_ms: number | null;
+  last_error: string | null;
+  drift_ms: number | null;
+  drift_samples: number;
+};
+type AlertRow = {
+  id: number;
+  beacon_id: string;
+  kind: AlertKind;
+  message: string;
+  opened_at_ms: number;
+  resolved_at_ms: number | null;
+};
+
+// Failures a genuine beacon with its current key does not produce, and the
+// only ones that got as far as the signature
+const SIGNATURE_ERRORS: VerificationErrorCode[] = ["bad_signature", "key_revoked"];
+// One slow phone must not raise a drift alert on its own
+const MIN_DRIFT_SAMPLES = 3;
+
+export function initBeaconHealth() {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS beacon_health (
+      beacon_id          TEXT PRIMARY KEY,
+      ok_count           INTEGER NOT NULL DEFAULT 0,
+      fail_count         INTEGER NOT NULL DEFAULT 0,
+      failure_streak     INTEGER NOT NULL DEFAULT 0,
+      last_seen_at_ms    INTEGER,
+      last_ok_at_ms      INTEGER,
+      last_failure_at_ms INTEGER,
+      last_error         TEXT,
+      drift_ms           REAL,
+      drift_samples      INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE TABLE IF NOT EXISTS beacon_alerts (
+      id             INTEGER PRIMARY KEY AUTOINCREMENT,
+      beacon_id      TEXT NOT NULL,
+      kind           TEXT NOT NULL,
+      message        TEXT NOT NULL,
+      opened_at_ms   INTEGER NOT NULL,
+      resolved_at_ms INTEGER
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS beacon_alerts_open ON beacon_alerts (beacon_id, kind) WHERE resolved_at_ms IS NULL;
+  `);
+  subscribe(e => {
+    if (e.type === "verification") recordOutcome(e.data, e.atMs);
+  });
+  // Silence is noticed by the clock, not by a request
+  sweep();
+  setInterval(() => sweep(), Math.min(config.beaconSilentAlertMs || 60_000, 60_000)).unref();
+}
+
+function formatSpan(ms: number): string {
+  if (ms < 2 * 60_000) return `${Math.round(ms / 1000)} s`;
+  if (ms < 2 * 60 * 60_000) return `${Math.round(ms / 60_000)} min`;
+  return `${Math.round(ms / (60 * 60_000))} h`;
+}
+
+function alertFromRow(r: AlertRow): BeaconAlert {
+  return {
+    id: r.id,
+    beaconIdHex: r.beacon_id,
+    kind: r.kind,
+    message: r.message,
+    openedAtMs: r.opened_at_ms,
+    resolvedAtMs: r.resolved_at_ms,
+  };
+}
+
+function healthRow(beaconIdHex: string): HealthRow | undefined {
+  return getDb().prepare("SELECT * FROM beacon_health WHERE beacon_id = ?").get(beaconIdHex) as HealthRow | undefined;
+}
+
+function recordOutcome(o: VerificationOutcome, nowMs: number) {
+  if (o.result === "fail" && !(o.error && SIGNATURE_ERRORS.includes(o.error))) return;
+  const beaconIdHex = o.beaconIdHex.toLowerCase();
+  if (!getBeacon(beaconIdHex)) return;
+  const db = getDb();
+
+  if (o.result === "fail") {
+    // A nonce can only be presented within its TTL, so that bounds the lookup
+    if (failedBefore(beaconIdHex, o.nonceHex, SIGNATURE_ERRORS, nowMs - config.nonceTtlMs, o.verificationId)) return;
+    db.prepare(`
+      INSERT INTO beacon_health (beacon_id, fail_count, failure_streak, last_seen_at_ms, last_failure_at_ms, last_error)
+      VALUES (?, 1, 1, ?, ?, ?)
+      ON CONFLICT (beacon_id) DO UPDATE SET fail_count = fail_count + 1, failure_streak = failure_streak + 1,
+        last_seen_at_ms = excluded.last_seen_at_ms, last_failure_at_ms = excluded.last_failure_at_ms,
+        last_error = excluded.last_error
+    `).run(beaconIdHex, nowMs, nowMs, o.error);
+    checkSignatures(beaconIdHex, nowMs);
+    return;
+  }
+
+  // Exponentially weighted, so the estimate follows a clock that wanders
+  const prev = healthRow(beaconIdHex);
+  const sample = Number(o.tsMs) - nowMs;
+  const alpha = 2 / (Math.max(config.beaconDriftWindow, 1) + 1);
+  const drift = prev?.drift_ms == null ? sample : prev.drift_ms + alpha * (sample - prev.drift_ms);
+  const samples = (prev?.drift_samples ?? 0) + 1;
+  db.prepare(`
+    INSERT INTO beacon_health (beacon_id, ok_count, last_seen_at_ms, last_ok_at_ms, drift_ms, drift_samples)
+    VALUES (?, 1, ?, ?, ?, 1)
+    ON CONFLICT (beacon_id) DO UPDATE SET ok_count = ok_count + 1, failure_streak = 0,
+      last_seen_at_ms = excluded.last_seen_at_ms, last_ok_at_ms = excluded.last_ok_at_ms,
+      drift_ms = excluded.drift_ms, drift_samples = drift_samples + 1
+  `).run(beaconIdHex, nowMs, nowMs, drift);
+  resolveAlert(beaconIdHex, "silent", nowMs);
+
+  const limit = config.beaconDriftAlertMs;
+  if (!limit || Math.abs(drift) <= limit) resolveAlert(beaconIdHex, "clock_drift", nowMs);
+  else if (samples >= MIN_DRIFT_SAMPLES) {
+    const message = `Clock ${Math.round(Math.abs(drift))} ms ${drift > 0 ? "ahead of" : "behind"} the server`;
+    openAlert(beaconIdHex, "clock_drift", message, nowMs);
+  }
+}
+
+// Opened by a burst of signature failures, resolved by the sweep once the
+// window has moved past it
+function checkSignatures(beaconIdHex: string, nowMs: number) {
+  const { beaconBadSigAlertCount: limit, beaconBadSigAlertWindowMs: windowMs } = config;
+  const n = limit ? countErrors(beaconIdHex, SIGNATURE_ERRORS, nowMs - windowMs) : 0;
+  if (!limit || n < limit) return resolveAlert(beaconIdHex, "bad_signatures", nowMs);
+  const message = `${n} bad signatures or revoked-key proofs within ${formatSpan(windowMs)}; the key may be compromised`;
+  openAlert(beaconIdHex, "bad_signatures", message, nowMs);
+}
+
+// Active beacons that verified before but not for BEACON_SILENT_ALERT_MS are
+// silent. Alerts of beacons deleted from the registry are closed.
+function sweep(nowMs = Date.now()) {
+  const silentMs = config.beaconSilentAlertMs;
+  for (const b of listBeacons()) {
+    const lastOk = healthRow(b.beaconIdHex)?.last_ok_at_ms ?? null;
+    if (silentMs && b.status === "active" && lastOk !== null && nowMs - lastOk > silentMs) {
+      const message = `No successful verification for ${formatSpan(nowMs - lastOk)}`;
+      openAlert(b.beaconIdHex, "silent", message, nowMs);
+    } else {
+      resolveAlert(b.beaconIdHex, "silent", nowMs);
+    }
+  }
+  for (const a of listAlerts({ open: true })) {
+    if (!getBeacon(a.beaconIdHex)) resolveAlert(a.beaconIdHex, a.kind, nowMs);
+    else if (a.kind === "bad_signatures") checkSignatures(a.beaconIdHex, nowMs);
+  }
+}
+
+// At most one open alert per beacon and kind; opening and resolving are
+// published as beacon.alert events
+function openAlert(beaconIdHex: string, kind: AlertKind, message: string, nowMs: number) {
+  const row = getDb().prepare(`
+    INSERT INTO beacon_alerts (beacon_id, kind, message, opened_at_ms) VALUES (?, ?, ?, ?)
+    ON CONFLICT (beacon_id, kind) WHERE resolved_at_ms IS NULL DO NOTHING
+    RETURNING *
+  `).get(beaconIdHex, kind, message, nowMs) as AlertRow | undefined;
+  if (!row) return;
+  console.warn(`Beacon ${beaconIdHex} alert (${kind}): ${message}`);
+  publishAlert(alertFromRow(row));
+}
+
+function resolveAlert(beaconIdHex: string, kind: AlertKind, nowMs: number) {
+  const row = getDb().prepare(`
+    UPDATE beacon_alerts SET resolved_at_ms = ? WHERE beacon_id = ? AND kind = ? AND resolved_at_ms IS NULL
+    RETURNING *
+  `).get(nowMs, beaconIdHex, kind) as AlertRow | undefined;
+  if (row) publishAlert(alertFromRow(row));
+}
+
+function publishAlert(a: BeaconAlert) {
+  publish({ type: "beacon.alert", beaconIdHex: a.beaconIdHex, tenantId: null, data: a });
+}
+
+export function getBeaconHealth(beaconIdHex: string): BeaconHealth {
+  const id = beaconIdHex.toLowerCase();
+  const r = healthRow(id);
+  return {
+    beaconIdHex: id,
+    okCount: r?.ok_count ?? 0,
+    failCount: r?.fail_count ?? 0,
+    failureStreak: r?.failure_streak ?? 0,
+    lastSeenAtMs: r?.last_seen_at_ms ?? null,
+    lastOkAtMs: r?.last_ok_at_ms ?? null,
+    lastFailureAtMs: r?.last_failure_at_ms ?? null,
+    lastError: r?.last_error ?? null,
+    clockDriftMs: r?.drift_ms == null ? null : Math.round(r.drift_ms),
+    driftSamples: r?.drift_samples ?? 0,
+    alerts: listAlerts({ beaconIdHex: id, open: true }),
+  };
+}
+
+// Newest first
+export function listAlerts(q: { beaconIdHex?: string; open?: boolean; limit?: number }): BeaconAlert[] {
+  const conds: string[] = [];
+  const args: (string | number)[] = [];
+  if (q.beaconIdHex) { conds.push("beacon_id = ?"); args.push(q.beaconIdHex.toLowerCase()); }
+  if (q.open) conds.push("resolved_at_ms IS NULL");
+  const where = conds.length ? `WHERE ${conds.join(" AND ")}` : "";
+  const rows = getDb()
+    .prepare(`SELECT * FROM beacon_alerts ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...args, Math.min(Math.max(q.limit ?? 100, 1), 1000)) as AlertRow[];
+  return rows.map(alertFromRow);
+}
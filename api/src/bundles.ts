@@ -0,0 +1,66 @@
+// api/src/bundles.ts
+import { hexToBytes, buildMessageFor, PROOF_BUNDLE_FORMAT, type MsgVersion, type ProofBundle } from "@spacescrypt/protocol";
+import { getJwks } from "./attest.js";
+import { getVerification } from "./audit.js";
+import { beaconSignatureValid, importBeaconKey } from "./crypto.js";
+import { getBeacon } from "./registry.js";
+import { inclusionProof, leafOfVerification } from "./translog.js";
+
+// Proof bundles (see @spacescrypt/protocol) are put together from the audit
+// log, the registry and the transparency log. They are checked offline by
+// proofbundle.ts.
+export type BundleError = "unknown_verification" | "not_verified" | "unknown_beacon" | "key_not_found";
+
+export function buildProofBundle(
+  verificationId: number,
+  nowMs = Date.now()
+): { ok: true; bundle: ProofBundle } | { ok: false; error: BundleError } {
+  const rec = getVerification(verificationId);
+  if (!rec || !rec.beaconIdHex || !rec.nonceHex || !rec.tsMs || !rec.sigHex) return { ok: false, error: "unknown_verification" };
+  if (rec.result !== "ok") return { ok: false, error: "not_verified" };
+  const beacon = getBeacon(rec.beaconIdHex);
+  if (!beacon) return { ok: false, error: "unknown_beacon" };
+
+  const proof = {
+    beaconIdHex: rec.beaconIdHex,
+    nonceHex: rec.nonceHex,
+    tsMs: rec.tsMs,
+    sigHex: rec.sigHex,
+    msgVersion: rec.msgVersion as MsgVersion,
+    ...(rec.sessionHex && { sessionHex: rec.sessionHex }),
+  };
+  // The key that verified it, even if it has been revoked or expired since
+  const msg = buildMessageFor(proof.msgVersion, proof);
+  const sig = hexToBytes(proof.sigHex);
+  const key = beacon.keys.find(k => beaconSignatureValid(beacon.alg, importBeaconKey(beacon.alg, k.publicKeyHex), msg, sig));
+  if (!key) return { ok: false, error: "key_not_found" };
+  const iso = (ms?: number) => (ms === undefined ? undefined : new Date(ms).toISOString());
+
+  const leaf = leafOfVerification(verificationId);
+  const included = leaf && inclusionProof(leaf.leafIndex);
+  return {
+    ok: true,
+    bundle: {
+      format: PROOF_BUNDLE_FORMAT,
+      version: 1,
+      createdAtMs: nowMs,
+      proof,
+      nonce: { source: rec.nonceSource, receipt: rec.nonceReceipt },
+      beaconKey: {
+        alg: beacon.alg,
+        publicKeyHex: key.publicKeyHex,
+        notBefore: iso(key.notBeforeMs),
+        notAfter: iso(key.notAfterMs),
+        revoked: key.revoked,
+      },
+      verification: {
+        verificationId,
+        result: "ok",
+        verifiedAtMs: rec.serverTimeMs,
+        attestation: leaf?.data ?? null,
+      },
+      ...(included?.ok && { log: { sth: included.sth, proof: included.proof } }),
+      jwks: getJwks(),
+    },
+  };
+}
@@ -0,0 +1,386 @@
+// api/src/cli.ts — software beacon: key generation, signing, an end-to-end simulator
+// and a batch verify benchmark, plus the offline proof bundle verifier
+//
+//   npm run cli -- keygen [--id <beaconIdHex>] [--label "Room 204"] [--site "Lab Building"] [--alg p256]
+//   npm run cli -- sign --seed <seedHex> --nonce <nonceHex> [--ts <ms>] [--alg p256]
+//                       [--msg-version 2 --id <beaconIdHex> [--session <32-byte hex>]]
+//   npm run cli -- simulate --id <beaconIdHex> --seed <seedHex> [--api http://localhost:8787]
+//                           [--fault stale|future|wrong-key|bad-sig|truncated|replay] [--count N]
+//                           [--msg-version 2 [--session <32-byte hex>]] [--api-key sck_...] [--alg p256]
+//   npm run cli -- bench --id <beaconIdHex> --seed <seedHex> [--count 200] [--api http://localhost:8787]
+//                        [--msg-version 2 [--session <32-byte hex>]] [--api-key sck_...] [--alg p256]
+//   npm run cli -- verify-bundle <bundle.json...> [--jwks jwks.json]
+//
+// The seed may also come from BEACON_SEED, and the tenant API key from API_KEY,
+// so they stay out of shell history. With --alg p256 the "seed" is the P-256
+// private scalar and signatures are raw r || s normalized to low S.
+//
+// bench times --count proofs sent as sequential /api/verify calls against the
+// same number sent through /api/verify/batch in chunks of --batch-size (at
+// most VERIFY_BATCH_MAX). Nonces are fetched and signed before the clock
+// starts. Run it against a server with rate limits off (RATE_IP_PER_MIN=0
+// RATE_BEACON_PER_MIN=0).
+//
+// verify-bundle never contacts the API. A file may hold one bundle or an
+// array of them; --jwks pins the attestation keys saved from
+// /.well-known/jwks.json instead of trusting each bundle's own copy.
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { createECDH, createPrivateKey, generateKeyPairSync, sign as cryptoSign, webcrypto } from "node:crypto";
+import nacl from "tweetnacl";
+import {
+  bytesToHex, hexToBytes, buildMessageFor, encodeSignResponse, SIGN_RESP_LEN, MSG_VERSIONS, BEACON_ALGS,
+  type BeaconAlg, type MsgVersion, type ProofBundle,
+} from "@spacescrypt/protocol";
+import type { Jwks } from "./merkle.js";
+import { checkProofBundle } from "./proofbundle.js";
+
+const FAULTS = ["stale", "future", "wrong-key", "bad-sig", "truncated", "replay"] as const;
+type Fault = (typeof FAULTS)[number];
+
+function die(msg: string): never {
+  console.error(msg);
+  process.exit(2);
+}
+
+// A beacon key pair of either algorithm
+type Signer = { publicKeyHex: string; sign(msg: Uint8Array): Uint8Array };
+
+const P256_N = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+
+function parseAlg(alg = "ed25519"): BeaconAlg {
+  if (!BEACON_ALGS.includes(alg as BeaconAlg)) die(`--alg must be one of ${BEACON_ALGS.join(", ")}`);
+  return alg as BeaconAlg;
+}
+
+function signerFromSeed(alg: BeaconAlg, seed: Uint8Array): Signer {
+  if (alg === "ed25519") {
+    const kp = nacl.sign.keyPair.fromSeed(seed);
+    return { publicKeyHex: bytesToHex(kp.publicKey), sign: msg => nacl.sign.detached(msg, kp.secretKey) };
+  }
+  const ecdh = createECDH("prime256v1");
+  ecdh.setPrivateKey(Buffer.from(seed));
+  const pub = ecdh.getPublicKey();
+  const key = createPrivateKey({
+    key: {
+      kty: "EC", crv: "P-256",
+      d: Buffer.from(seed).toString("base64url"),
+      x: pub.subarray(1, 33).toString("base64url"),
+      y: pub.subarray(33).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  return {
+    publicKeyHex: ecdh.getPublicKey("hex", "compressed"),
+    sign: msg => {
+      const sig = cryptoSign("sha256", msg, { key, dsaEncoding: "ieee-p1363" });
+      // The API only accepts the low-S form
+      const s = BigInt(`0x${sig.subarray(32).toString("hex")}`);
+      if (s > P256_N / 2n) sig.set(hexToBytes((P256_N - s).toString(16).padStart(64, "0")), 32);
+      return new Uint8Array(sig);
+    },
+  };
+}
+
+function randomSeed(alg: BeaconAlg): Uint8Array {
+  if (alg === "p256") {
+    const jwk = generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey.export({ format: "jwk" });
+    return new Uint8Array(Buffer.from(jwk.d!, "base64url"));
+  }
+  const seed = new Uint8Array(32);
+  webcrypto.getRandomValues(seed);
+  return seed;
+}
+
+function signerFromSeedHex(alg: BeaconAlg, seedHex: string | undefined): Signer {
+  const hex = seedHex ?? process.env.BEACON_SEED;
+  if (!hex || !/^[0-9a-f]{64}$/i.test(hex)) die("--seed (or BEACON_SEED) must be 32 bytes hex");
+  try {
+    return signerFromSeed(alg, hexToBytes(hex));
+  } catch {
+    die("--seed is not a valid P-256 private key");
+  }
+}
+
+// Message format the beacon speaks, and the v2 session binding written after the nonce
+type Speaks = { beaconIdHex: string; msgVersion: MsgVersion; sessionHex?: string };
+
+function parseSpeaks(beaconIdHex: string | undefined, msgVersion = "1", sessionHex?: string): Speaks {
+  const v = Number(msgVersion) as MsgVersion;
+  if (!MSG_VERSIONS.includes(v)) die(`--msg-version must be one of ${MSG_VERSIONS.join(", ")}`);
+  if (v === 2 && (!beaconIdHex || !/^[0-9a-f]{16}$/i.test(beaconIdHex))) die("--msg-version 2 needs --id (8 bytes hex)");
+  if (sessionHex !== undefined && (v !== 2 || !/^[0-9a-f]{64}$/i.test(sessionHex))) {
+    die("--session must be 32 bytes hex and needs --msg-version 2");
+  }
+  return { beaconIdHex: (beaconIdHex ?? "").toLowerCase(), msgVersion: v, sessionHex: sessionHex?.toLowerCase() };
+}
+
+// Exactly what the firmware does on a SIGN_NONCE_UUID write
+function signNonce(signer: Signer, nonceHex: string, tsMs: string, speaks: Speaks): Uint8Array {
+  const msg = buildMessageFor(speaks.msgVersion, { ...speaks, nonceHex, tsMs });
+  return encodeSignResponse(tsMs, signer.sign(msg));
+}
+
+function keygen(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: { id: { type: "string" }, label: { type: "string" }, site: { type: "string" }, alg: { type: "string" } },
+  });
+  const alg = parseAlg(values.alg);
+  let id = values.id;
+  if (!id) {
+    const b = new Uint8Array(8);
+    webcrypto.getRandomValues(b);
+    id = bytesToHex(b);
+  }
+  if (!/^[0-9a-f]{16}$/i.test(id)) die("--id must be 8 bytes hex");
+
+  const seed = randomSeed(alg);
+  const { publicKeyHex } = signerFromSeed(alg, seed);
+  const entry = {
+    [id.toLowerCase()]: {
+      label: values.label,
+      site: values.site,
+      status: "active",
+      alg: alg === "ed25519" ? undefined : alg,
+      keys: [{ publicKeyHex, notBefore: new Date().toISOString() }],
+    },
+  };
+
+  console.log(`beaconIdHex:  ${id.toLowerCase()}`);
+  console.log(`publicKeyHex: ${publicKeyHex}`);
+  console.log(`seedHex:      ${bytesToHex(seed)}   (secret: flash to the beacon, never commit)`);
+  console.log("\nbeacons.json v2 entry (merge into \"beacons\", or POST to /api/admin/beacons):");
+  console.log(JSON.stringify(entry, null, 4));
+}
+
+function sign(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      seed: { type: "string" },
+      nonce: { type: "string" },
+      ts: { type: "string" },
+      id: { type: "string" },
+      "msg-version": { type: "string" },
+      session: { type: "string" },
+      alg: { type: "string" },
+    },
+  });
+  const signer = signerFromSeedHex(parseAlg(values.alg), values.seed);
+  const speaks = parseSpeaks(values.id, values["msg-version"], values.session);
+  if (!values.nonce || !/^[0-9a-f]{32}$/i.test(values.nonce)) die("--nonce must be 16 bytes hex");
+  const tsMs = values.ts ?? String(Date.now());
+  if (!/^[0-9]+$/.test(tsMs)) die("--ts must be decimal ms");
+
+  const resp = signNonce(signer, values.nonce, tsMs, speaks);
+  console.log(bytesToHex(resp));
+  console.error(`tsMs=${tsMs} sigHex=${bytesToHex(resp.slice(8))}`);
+}
+
+async function simulateOnce(
+  api: string, apiKey: string | undefined, speaks: Speaks, alg: BeaconAlg, signer: Signer, fault?: Fault
+): Promise<boolean> {
+  const { beaconIdHex } = speaks;
+  const auth: Record<string, string> = apiKey ? { "X-Api-Key": apiKey } : {};
+  const r = await fetch(`${api}/api/nonce?beaconIdHex=${beaconIdHex}`, { headers: auth });
+  if (!r.ok) throw new Error(`nonce failed: ${r.status} ${await r.text()}`);
+  const { nonceHex } = (await r.json()) as { nonceHex: string };
+
+  let tsMs = Date.now();
+  if (fault === "stale") tsMs -= 10 * 60_000;
+  if (fault === "future") tsMs += 10 * 60_000;
+  let resp = signNonce(fault === "wrong-key" ? signerFromSeed(alg, randomSeed(alg)) : signer, nonceHex, String(tsMs), speaks);
+  if (fault === "bad-sig") resp[8] ^= 0x01;
+  if (fault === "truncated") resp = resp.slice(0, SIGN_RESP_LEN - 1);
+
+  // Parse the reply the way the web app does, without its length guard
+  const payload = {
+    beaconIdHex,
+    nonceHex,
+    tsMs: String(tsMs),
+    sigHex: bytesToHex(resp.slice(8)),
+    ...(speaks.msgVersion === 2 && { msgVersion: 2, sessionHex: speaks.sessionHex }),
+  };
+  const submit = async () => {
+    const v = await fetch(`${api}/api/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...auth },
+      body: JSON.stringify(payload),
+    });
+    return { status: v.status, json: (await v.json()) as { ok: boolean; error?: string } };
+  };
+
+  let res = await submit();
+  if (fault === "replay") {
+    console.log(`  first:  ${res.status} ${JSON.stringify(res.json)}`);
+    res = await submit();
+  }
+  const expectOk = fault === undefined;
+  const pass = res.json.ok === expectOk;
+  console.log(`${pass ? "PASS" : "FAIL"} fault=${fault ?? "none"} -> ${res.status} ${res.json.ok ? "ok" : res.json.error}`);
+  return pass;
+}
+
+async function simulate(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      api: { type: "string", default: process.env.API_BASE || "http://localhost:8787" },
+      "api-key": { type: "string", default: process.env.API_KEY },
+      id: { type: "string" },
+      seed: { type: "string" },
+      fault: { type: "string" },
+      count: { type: "string", default: "1" },
+      "msg-version": { type: "string" },
+      session: { type: "string" },
+      alg: { type: "string" },
+    },
+  });
+  if (!values.id || !/^[0-9a-f]{16}$/i.test(values.id)) die("--id must be 8 bytes hex");
+  const fault = values.fault as Fault | undefined;
+  if (fault && !FAULTS.includes(fault)) die(`--fault must be one of ${FAULTS.join(", ")}`);
+  const alg = parseAlg(values.alg);
+  const signer = signerFromSeedHex(alg, values.seed);
+  const speaks = parseSpeaks(values.id, values["msg-version"], values.session);
+
+  let failures = 0;
+  for (let i = 0; i < Number(values.count); i++) {
+    if (!(await simulateOnce(values.api, values["api-key"], speaks, alg, signer, fault))) failures++;
+  }
+  process.exit(failures ? 1 : 0);
+}
+
+type ProofPayload = { beaconIdHex: string; nonceHex: string; tsMs: string; sigHex: string; msgVersion?: 2; sessionHex?: string };
+
+async function signedProofs(api: string, auth: Record<string, string>, speaks: Speaks, signer: Signer, n: number) {
+  const { beaconIdHex } = speaks;
+  const proofs: ProofPayload[] = [];
+  for (let i = 0; i < n; i++) {
+    const r = await fetch(`${api}/api/nonce?beaconIdHex=${beaconIdHex}`, { headers: auth });
+    if (!r.ok) throw new Error(`nonce failed: ${r.status} ${await r.text()}`);
+    const { nonceHex } = (await r.json()) as { nonceHex: string };
+    const tsMs = String(Date.now());
+    proofs.push({
+      beaconIdHex,
+      nonceHex,
+      tsMs,
+      sigHex: bytesToHex(signNonce(signer, nonceHex, tsMs, speaks).slice(8)),
+      ...(speaks.msgVersion === 2 && { msgVersion: 2 as const, sessionHex: speaks.sessionHex }),
+    });
+  }
+  return proofs;
+}
+
+async function bench(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      api: { type: "string", default: process.env.API_BASE || "http://localhost:8787" },
+      "api-key": { type: "string", default: process.env.API_KEY },
+      id: { type: "string" },
+      seed: { type: "string" },
+      count: { type: "string", default: "200" },
+      "batch-size": { type: "string", default: "500" },
+      "msg-version": { type: "string" },
+      session: { type: "string" },
+      alg: { type: "string" },
+    },
+  });
+  if (!values.id || !/^[0-9a-f]{16}$/i.test(values.id)) die("--id must be 8 bytes hex");
+  const count = Number(values.count);
+  const batchSize = Number(values["batch-size"]);
+  if (!Number.isInteger(count) || count < 1) die("--count must be a positive integer");
+  if (!Number.isInteger(batchSize) || batchSize < 1) die("--batch-size must be a positive integer");
+  const signer = signerFromSeedHex(parseAlg(values.alg), values.seed);
+  const speaks = parseSpeaks(values.id, values["msg-version"], values.session);
+  const api = values.api;
+  const auth: Record<string, string> = values["api-key"] ? { "X-Api-Key": values["api-key"] } : {};
+  const post = (path: string, body: unknown) => fetch(`${api}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...auth },
+    body: JSON.stringify(body),
+  });
+
+  const single = await signedProofs(api, auth, speaks, signer, count);
+  let t = performance.now();
+  let seqOk = 0;
+  for (const p of single) {
+    const r = (await (await post("/api/verify", p)).json()) as { ok: boolean };
+    if (r.ok) seqOk++;
+  }
+  const seqMs = performance.now() - t;
+
+  const batched = await signedProofs(api, auth, speaks, signer, count);
+  t = performance.now();
+  let batchOk = 0;
+  for (let i = 0; i < batched.length; i += batchSize) {
+    const r = await post("/api/verify/batch", { proofs: batched.slice(i, i + batchSize) });
+    if (!r.ok) throw new Error(`batch failed: ${r.status} ${await r.text()}`);
+    batchOk += ((await r.json()) as { okCount: number }).okCount;
+  }
+  const batchMs = performance.now() - t;
+
+  const line = (name: string, ok: number, ms: number) =>
+    console.log(`${name} ${ok}/${count} ok in ${ms.toFixed(0)} ms (${((count / ms) * 1000).toFixed(0)} proofs/s)`);
+  line("sequential /api/verify:  ", seqOk, seqMs);
+  line("/api/verify/batch:       ", batchOk, batchMs);
+  console.log(`speedup: ${(seqMs / batchMs).toFixed(1)}x`);
+  // Rejected proofs would make the comparison meaningless
+  process.exit(seqOk === count && batchOk === count ? 0 : 1);
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    die(`${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+function verifyBundle(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    options: { jwks: { type: "string" } },
+    allowPositionals: true,
+  });
+  if (!positionals.length) die("verify-bundle needs at least one bundle file");
+  const jwks = values.jwks ? (readJson(values.jwks) as Jwks) : undefined;
+  if (jwks && !Array.isArray(jwks.keys)) die("--jwks must be a JWKS document ({ \"keys\": [...] })");
+
+  let failures = 0;
+  for (const file of positionals) {
+    // An unreadable file fails on its own; the others are still checked
+    let doc: unknown;
+    try {
+      doc = JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (e) {
+      console.log(`FAIL ${file}`);
+      console.log(`  error: ${e instanceof Error ? e.message : String(e)}`);
+      failures++;
+      continue;
+    }
+    const bundles = (Array.isArray(doc) ? doc : [doc]) as ProofBundle[];
+    bundles.forEach((b, i) => {
+      const name = Array.isArray(doc) ? `${file}[${i}]` : file;
+      const { ok, discrepancies, warnings } = checkProofBundle(b, jwks);
+      const what = b?.proof ? ` beacon=${b.proof.beaconIdHex} nonce=${b.proof.nonceHex}` : "";
+      console.log(`${ok ? "PASS" : "FAIL"} ${name}${what}`);
+      for (const d of discrepancies) console.log(`  discrepancy: ${d}`);
+      for (const w of warnings) console.log(`  warning: ${w}`);
+      if (!ok) failures++;
+    });
+  }
+  process.exit(failures ? 1 : 0);
+}
+
+const [cmd, ...rest] = process.argv.slice(2);
+switch (cmd) {
+  case "keygen": keygen(rest); break;
+  case "sign": sign(rest); break;
+  case "simulate": await simulate(rest); break;
+  case "bench": await bench(rest); break;
+  case "verify-bundle": verifyBundle(rest); break;
+  default:
+    die("usage: cli <keygen|sign|simulate|bench|verify-bundle> [options]   (see header of src/cli.ts)");
+}
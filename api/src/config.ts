@@ -0,0 +1,114 @@
+// api/src/config.ts
+import path from "node:path";
+
+function envInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) {
+    throw new Error(`${name} must be a number (got ${raw})`);
+  }
+  return n;
+}
+
+// Where runtime state (nonce ledger, database, ...) is persisted
+const dataDir = process.env.DATA_DIR || path.join(process.cwd(), "data");
+
+export const config = {
+  dataDir,
+  // SQLite database for the verification audit log; ":memory:" for throwaway runs
+  dbPath: process.env.DB_PATH || path.join(dataDir, "spacescrypt.db"),
+
+  // Honour X-Forwarded-For when behind a reverse proxy, so per-IP rate limits
+  // see the client rather than the proxy
+  trustProxy: ["1", "true"].includes(process.env.TRUST_PROXY || ""),
+
+  // Bearer token for /api/admin/* and other operator routes; unset disables them
+  adminToken: process.env.ADMIN_TOKEN || "",
+
+  // Browser origins allowed by CORS besides those registered by tenants
+  corsOrigins: (process.env.CORS_ORIGINS || "https://spacecomputer-capstone.github.io").split(",").map(s => s.trim()).filter(Boolean),
+  // Reject /api/nonce and /api/verify calls without a tenant API key
+  requireApiKey: ["1", "true"].includes(process.env.REQUIRE_API_KEY || ""),
+
+  // Randomness providers tried in order for each nonce: orbitport, ipfs, csprng, seeded
+  entropyProviders: (process.env.ENTROPY_PROVIDERS || "orbitport,csprng").split(",").map(s => s.trim()).filter(Boolean),
+  // Seed for the deterministic "seeded" provider (tests only)
+  entropySeed: process.env.ENTROPY_SEED || "",
+  // Prefetched nonce pool: how many 16-byte nonces to keep ready (0 disables)
+  // and the fill level at which a background refill starts
+  poolSize: envInt("POOL_SIZE", 64),
+  poolLowWater: envInt("POOL_LOW_WATER", 16),
+
+  // Nonce ledger: "memory" (default) or "sqlite" (in DB_PATH, survives restarts)
+  nonceStore: process.env.NONCE_STORE || "memory",
+  // How long an issued nonce may be presented to /api/verify
+  nonceTtlMs: envInt("NONCE_TTL_MS", 2 * 60_000),
+
+  // Beacon timestamp policy: tolerated clock difference between beacon and
+  // server, and the longest allowed gap between signing and verification
+  tsMaxSkewMs: envInt("TS_MAX_SKEW_MS", 30_000),
+  tsMaxLatencyMs: envInt("TS_MAX_LATENCY_MS", 60_000),
+  // Most proofs accepted by one POST /api/verify/batch call
+  verifyBatchMax: envInt("VERIFY_BATCH_MAX", 500),
+
+  // Stay-checked-in sessions close when no heartbeat verification arrives
+  // for this long (clients re-verify every 30 s by default)
+  presenceLapseMs: envInt("PRESENCE_LAPSE_MS", 90_000),
+
+  // Presence attestation tokens minted by /api/verify
+  attestationKeysFile: process.env.ATTESTATION_KEYS_FILE || path.join(process.cwd(), "config/attestation-keys.json"),
+  attestationIssuer: process.env.ATTESTATION_ISSUER || "spacescrypt-api",
+  attestationTtlS: envInt("ATTESTATION_TTL_S", 5 * 60),
+  // Transparency log: how often a new signed tree head is published when
+  // verifications were appended since the last one
+  logSthIntervalMs: envInt("LOG_STH_INTERVAL_MS", 60_000),
+
+  // Token-bucket rate limits on /api/nonce and the verify routes, per client
+  // IP, per API key and per beacon: sustained requests per minute and burst
+  // size. A rate of 0 disables that bucket. RATE_LIMIT_STORE: "memory".
+  rateLimitStore: process.env.RATE_LIMIT_STORE || "memory",
+  rateLimits: {
+    ip: { perMinute: envInt("RATE_IP_PER_MIN", 60), capacity: envInt("RATE_IP_BURST", 30) },
+    apiKey: { perMinute: envInt("RATE_KEY_PER_MIN", 600), capacity: envInt("RATE_KEY_BURST", 600) },
+    beacon: { perMinute: envInt("RATE_BEACON_PER_MIN", 30), capacity: envInt("RATE_BEACON_BURST", 10) },
+  },
+  // A beacon with LOCKOUT_FAILURES bad signatures, each over a different
+  // nonce, within LOCKOUT_WINDOW_MS is refused for LOCKOUT_MS (0 failures
+  // disables lockouts)
+  lockoutFailures: envInt("LOCKOUT_FAILURES", 10),
+  lockoutWindowMs: envInt("LOCKOUT_WINDOW_MS", 10 * 60_000),
+  lockoutMs: envInt("LOCKOUT_MS", 15 * 60_000),
+
+  // Beacon health: how many recent verified proofs the clock drift average
+  // roughly spans, and alert thresholds. An alert opens when that average
+  // exceeds BEACON_DRIFT_ALERT_MS, when an active beacon has had no success
+  // for BEACON_SILENT_ALERT_MS, or on BEACON_BADSIG_ALERT_COUNT nonces with
+  // bad signatures or revoked keys within BEACON_BADSIG_ALERT_WINDOW_MS. 0
+  // disables an alert.
+  beaconDriftWindow: envInt("BEACON_DRIFT_WINDOW", 20),
+  beaconDriftAlertMs: envInt("BEACON_DRIFT_ALERT_MS", 5_000),
+  beaconSilentAlertMs: envInt("BEACON_SILENT_ALERT_MS", 24 * 60 * 60_000),
+  beaconBadSigAlertCount: envInt("BEACON_BADSIG_ALERT_COUNT", 5),
+  beaconBadSigAlertWindowMs: envInt("BEACON_BADSIG_ALERT_WINDOW_MS", 10 * 60_000),
+
+  // GET /readyz: how long a cTRNG reachability probe result is reused, how
+  // long one may take, and whether an unreachable cTRNG makes the instance
+  // unready (by default it only degrades nonces to the CSPRNG fallback)
+  readyProbeTtlMs: envInt("READY_PROBE_TTL_MS", 60_000),
+  readyProbeTimeoutMs: envInt("READY_PROBE_TIMEOUT_MS", 5_000),
+  readyRequireCtrng: ["1", "true"].includes(process.env.READY_REQUIRE_CTRNG || ""),
+  // Bearer token Prometheus must send to GET /metrics; unset leaves it open
+  metricsToken: process.env.METRICS_TOKEN || "",
+
+  // Live event stream: events kept for Last-Event-ID resume, and how often an
+  // idle connection gets a heartbeat
+  eventBuffer: envInt("EVENT_BUFFER", 1000),
+  eventHeartbeatMs: envInt("EVENT_HEARTBEAT_MS", 15_000),
+
+  // Webhook deliveries: per-request timeout, attempts before a delivery goes
+  // to the dead-letter list, and the first retry delay (doubles each time)
+  webhookTimeoutMs: envInt("WEBHOOK_TIMEOUT_MS", 5_000),
+  webhookMaxAttempts: envInt("WEBHOOK_MAX_ATTEMPTS", 8),
+  webhookBackoffMs: envInt("WEBHOOK_BACKOFF_MS", 10_000),
+};
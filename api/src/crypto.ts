@@ -1,63 +1,29 @@
 // api/src/crypto.ts
-import { webcrypto } from "node:crypto";
-import { OrbitportSDK } from "@spacecomputer-io/orbitport-sdk-ts";
+import { createPublicKey, verify as cryptoVerify, type KeyObject } from "node:crypto";
+import { isLowS, publicKeyHexValid, type BeaconAlg } from "@spacescrypt/protocol";
 
-export function hexToBytes(h: string): Uint8Array {
-  const hex = h.toLowerCase();
-  if (!/^[0-9a-f]*$/.test(hex) || hex.length % 2) {
-    throw new Error("invalid hex");
-  }
-  const out = new Uint8Array(hex.length / 2);
-  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
-  return out;
-}
-
-export function bytesToHex(b: Uint8Array): string {
-  return Array.from(b).map(x => x.toString(16).padStart(2, "0")).join("");
-}
+// Byte helpers, the signed message formats and the BLE reply codec live in
+// @spacescrypt/protocol, shared with the web app. This module only holds what
+// needs node:crypto.
 
-// Convert a decimal ms string to 8-byte big-endian
-export function u64StringTo8BE(msStr: string): Uint8Array {
-  const n = BigInt(msStr);
-  const out = new Uint8Array(8);
-  for (let i = 7; i >= 0; i--) out[i] = Number((n >> BigInt((7 - i) * 8)) & 0xffn);
-  return out;
-}
+// DER SubjectPublicKeyInfo prefixes for a P-256 point, by point length
+const P256_SPKI_PREFIX: Record<number, string> = {
+  33: "3039301306072a8648ce3d020106082a8648ce3d030107032200",
+  65: "3059301306072a8648ce3d020106082a8648ce3d030107034200",
+};
 
-// Canonical message: nonce16 || ts_be64
-export function buildMessage(nonceHex: string, tsMs: string): Uint8Array {
-  const nonce = hexToBytes(nonceHex);
-  if (nonce.length !== 16) {
-    throw new Error("nonce must be exactly 16 bytes");
-  }
-  const ts = u64StringTo8BE(tsMs);
-  const msg = new Uint8Array(24); // 16 + 8
-  msg.set(nonce, 0);
-  msg.set(ts, 16);
-  return msg;
+// Throws when the key is malformed or, for P-256, not a point on the curve
+export function importBeaconKey(alg: BeaconAlg, publicKeyHex: string): KeyObject {
+  if (!publicKeyHexValid(alg, publicKeyHex)) throw new Error(`not a ${alg} public key`);
+  const raw = Buffer.from(publicKeyHex, "hex");
+  if (alg === "ed25519") return createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: raw.toString("base64url") }, format: "jwk" });
+  const der = Buffer.concat([Buffer.from(P256_SPKI_PREFIX[raw.length], "hex"), raw]);
+  return createPublicKey({ key: der, format: "der", type: "spki" });
 }
 
-// 16-byte cTRNG nonce using SpaceComputer's API
-export async function randomNonce16(): Promise<Uint8Array> {
-  try {
-    const sdk = new OrbitportSDK({
-      config: {
-        clientId: process.env.OP_CLIENT_ID,
-        clientSecret: process.env.OP_CLIENT_SECRET,
-      },
-    });
-    
-    const result = await sdk.ctrng.random();
-    const randomHex = result.data.data;
-    
-    // Convert the hex string to Uint8Array and take first 16 bytes
-    const fullBytes = hexToBytes(randomHex);
-    return fullBytes.slice(0, 16);
-  } catch (error) {
-    console.error("Failed to get cTRNG, falling back to CSPRNG:", error);
-    // Fallback to local CSPRNG if API fails
-    const arr = new Uint8Array(16);
-    webcrypto.getRandomValues(arr);
-    return arr;
-  }
+// Ed25519 over the message, or ECDSA P-256 over its SHA-256 as raw r || s
+// with a low S
+export function beaconSignatureValid(alg: BeaconAlg, key: KeyObject, msg: Uint8Array, sig: Uint8Array): boolean {
+  if (alg === "p256") return isLowS(sig) && cryptoVerify("sha256", msg, { key, dsaEncoding: "ieee-p1363" }, sig);
+  return cryptoVerify(null, msg, key, sig);
 }
@@ -0,0 +1,39 @@
+// api/src/db.ts
+import fs from "node:fs";
+import path from "node:path";
+import { DatabaseSync } from "node:sqlite";
+import { config } from "./config.js";
+
+// Embedded SQLite (node:sqlite, Node >= 22.13) shared by every persistent table.
+let db: DatabaseSync | undefined;
+
+export function getDb(): DatabaseSync {
+  if (!db) {
+    if (config.dbPath !== ":memory:") fs.mkdirSync(path.dirname(config.dbPath), { recursive: true });
+    db = new DatabaseSync(config.dbPath);
+    db.exec("PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000; PRAGMA foreign_keys = ON;");
+  }
+  return db;
+}
+
+// Additive migration for tables created by an older version
+export function ensureColumn(table: string, column: string, type: string) {
+  const cols = getDb().prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!cols.some(c => c.name === column)) {
+    getDb().exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+// Runs fn inside one transaction; many small writes commit far faster together
+export function transaction<T>(fn: () => T): T {
+  const d = getDb();
+  d.exec("BEGIN");
+  try {
+    const out = fn();
+    d.exec("COMMIT");
+    return out;
+  } catch (e) {
+    d.exec("ROLLBACK");
+    throw e;
+  }
+}
@@ -0,0 +1,119 @@
+// api/src/entropy.ts
+import { createHash, webcrypto } from "node:crypto";
+import { OrbitportSDK } from "@spacecomputer-io/orbitport-sdk-ts";
+import { hexToBytes } from "@spacescrypt/protocol";
+import { config } from "./config.js";
+
+export type EntropySource = "orbitport" | "ipfs" | "csprng" | "seeded";
+
+// Where a batch of random bytes came from. `receipt` carries whatever the
+// upstream cTRNG returned alongside the bytes (signature, source, ...).
+export type EntropyResult = {
+  bytes: Uint8Array;
+  source: EntropySource;
+  receipt?: Record<string, unknown>;
+};
+
+export interface EntropyProvider {
+  readonly name: EntropySource;
+  // One upstream draw of at least `minBytes`. Providers return everything
+  // they got (e.g. a whole cTRNG response) so callers can pool the surplus.
+  draw(minBytes: number): Promise<EntropyResult>;
+}
+
+// cTRNG through the Orbitport SDK. With credentials the SDK uses the API;
+// without, it reads published beacons from IPFS.
+class OrbitportProvider implements EntropyProvider {
+  private readonly sdk: OrbitportSDK;
+
+  constructor(readonly name: "orbitport" | "ipfs") {
+    this.sdk = new OrbitportSDK({
+      config: name === "orbitport"
+        ? { clientId: process.env.OP_CLIENT_ID, clientSecret: process.env.OP_CLIENT_SECRET }
+        : {},
+    });
+  }
+
+  async draw(minBytes: number): Promise<EntropyResult> {
+    const result = await this.sdk.ctrng.random();
+    const { data: randomHex, ...receipt } = result.data as { data: string } & Record<string, unknown>;
+    const bytes = hexToBytes(randomHex);
+    if (bytes.length < minBytes) {
+      throw new Error(`${this.name} returned ${bytes.length} bytes, need ${minBytes}`);
+    }
+    return { bytes, source: this.name, receipt };
+  }
+}
+
+export class CsprngProvider implements EntropyProvider {
+  readonly name = "csprng";
+
+  async draw(minBytes: number): Promise<EntropyResult> {
+    const bytes = new Uint8Array(minBytes);
+    webcrypto.getRandomValues(bytes);
+    return { bytes, source: this.name };
+  }
+}
+
+// Deterministic stream SHA-256(seed || counter_be32) for tests and demos.
+// Never use in production: anyone who knows the seed knows every nonce.
+export class SeededProvider implements EntropyProvider {
+  readonly name = "seeded";
+  private counter = 0;
+
+  constructor(private readonly seed: string) {}
+
+  async draw(minBytes: number): Promise<EntropyResult> {
+    const first = this.counter;
+    const out = new Uint8Array(Math.ceil(minBytes / 32) * 32);
+    for (let off = 0; off < out.length; off += 32) {
+      const ctr = Buffer.alloc(4);
+      ctr.writeUInt32BE(this.counter++);
+      out.set(createHash("sha256").update(this.seed).update(ctr).digest(), off);
+    }
+    return { bytes: out, source: this.name, receipt: { counter: first } };
+  }
+}
+
+// Tries providers in order; the first that succeeds wins.
+export class ChainProvider {
+  constructor(readonly providers: EntropyProvider[]) {
+    if (!providers.length) throw new Error("Entropy chain needs at least one provider");
+  }
+
+  async draw(minBytes: number): Promise<EntropyResult & { fallbackFrom: EntropySource[] }> {
+    const failed: EntropySource[] = [];
+    for (const p of this.providers) {
+      try {
+        return { ...(await p.draw(minBytes)), fallbackFrom: failed };
+      } catch (error) {
+        console.warn(`Entropy provider ${p.name} failed, trying next:`, error);
+        failed.push(p.name);
+      }
+    }
+    throw new Error(`All entropy providers failed (${failed.join(", ")})`);
+  }
+}
+
+export function createProvider(name: string): EntropyProvider {
+  switch (name) {
+    case "orbitport":
+    case "ipfs":
+      return new OrbitportProvider(name);
+    case "csprng":
+      return new CsprngProvider();
+    case "seeded":
+      if (!config.entropySeed) throw new Error("ENTROPY_SEED is required for the seeded provider");
+      return new SeededProvider(config.entropySeed);
+    default:
+      throw new Error(`Unknown entropy provider: ${name} (expect orbitport, ipfs, csprng or seeded)`);
+  }
+}
+
+let chain: ChainProvider | undefined;
+
+// Built once from ENTROPY_PROVIDERS, e.g. "orbitport,ipfs,csprng"
+export function getEntropyChain(): ChainProvider {
+  chain ??= new ChainProvider(config.entropyProviders.map(createProvider));
+  return chain;
+}
@@ -0,0 +1,47 @@
+// api/src/events.ts
+import type { BeaconAlert, LiveEvent, NonceIssued, VerificationOutcome } from "@spacescrypt/protocol";
+import { config } from "./config.js";
+
+// In-process event bus. Routes publish what happened; webhooks, beacon health
+// and the live /api/events stream subscribe. The last EVENT_BUFFER events are kept so a
+// reconnecting stream client can resume from its last event id. Events are
+// the protocol's LiveEvent, as the stream sends them (minus attestations).
+export type { BeaconAlert, NonceIssued, VerificationOutcome };
+export type BusEvent = LiveEvent;
+
+export type BusEventType = BusEvent["type"];
+
+type NewEvent = BusEvent extends infer E ? (E extends BusEvent ? Omit<E, "id" | "atMs"> : never) : never;
+
+const buffer: BusEvent[] = [];
+const listeners = new Set<(e: BusEvent) => void>();
+let seq = 0;
+
+export function publish(e: NewEvent, atMs = Date.now()): BusEvent {
+  const event = { ...e, id: ++seq, atMs } as BusEvent;
+  buffer.push(event);
+  if (buffer.length > config.eventBuffer) buffer.shift();
+  // A broken subscriber must not fail the request that published
+  for (const fn of listeners) {
+    try {
+      fn(event);
+    } catch (err) {
+      console.error("Event subscriber failed:", err);
+    }
+  }
+  return event;
+}
+
+export function subscribe(fn: (e: BusEvent) => void): () => void {
+  listeners.add(fn);
+  return () => listeners.delete(fn);
+}
+
+// Buffered events after `lastId`. `gap` is set when some of them have
+// already been dropped from the buffer, or the id is from before a restart.
+export function eventsSince(lastId: number): { events: BusEvent[]; gap: boolean } {
+  if (lastId > seq) return { events: [...buffer], gap: true };
+  const events = buffer.filter(e => e.id > lastId);
+  const oldest = buffer[0]?.id ?? seq + 1;
+  return { events, gap: lastId < oldest - 1 };
+}
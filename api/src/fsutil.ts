@@ -0,0 +1,17 @@
+// api/src/fsutil.ts
+import fs from "node:fs";
+import path from "node:path";
+
+// Write to a temp file in the same directory, then rename over the target,
+// so readers never observe a half-written file.
+export function writeFileAtomic(file: string, data: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    fs.writeFileSync(tmp, data, "utf8");
+    fs.renameSync(tmp, file);
+  } catch (e) {
+    fs.rmSync(tmp, { force: true });
+    throw e;
+  }
+}
@@ -0,0 +1,56 @@
+// api/src/health.ts
+import { config } from "./config.js";
+import { getEntropyChain } from "./entropy.js";
+import { NONCE_LEN } from "./pool.js";
+import { listBeacons, registryStatus } from "./registry.js";
+
+export type CtrngProbe = {
+  ok: boolean;
+  provider: string | null;  // null when ENTROPY_PROVIDERS has no cTRNG
+  checkedAtMs: number;
+  latencyMs: number | null;
+  error: string | null;
+};
+
+let lastProbe: CtrngProbe | undefined;
+let probing: Promise<CtrngProbe> | undefined;
+
+// One draw from the first cTRNG provider (orbitport or ipfs) in the chain,
+// with a timeout. The result is reused for READY_PROBE_TTL_MS so frequent
+// readiness polls do not spend upstream quota; concurrent polls share a probe.
+export function probeCtrng(nowMs = Date.now()): Promise<CtrngProbe> {
+  if (lastProbe && nowMs - lastProbe.checkedAtMs < config.readyProbeTtlMs) return Promise.resolve(lastProbe);
+  probing ??= runProbe().then(p => (lastProbe = p)).finally(() => { probing = undefined; });
+  return probing;
+}
+
+async function runProbe(): Promise<CtrngProbe> {
+  const checkedAtMs = Date.now();
+  const provider = getEntropyChain().providers.find(p => p.name === "orbitport" || p.name === "ipfs");
+  if (!provider) return { ok: true, provider: null, checkedAtMs, latencyMs: null, error: null };
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      provider.draw(NONCE_LEN),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`no answer within ${config.readyProbeTimeoutMs} ms`)), config.readyProbeTimeoutMs);
+      }),
+    ]);
+    return { ok: true, provider: provider.name, checkedAtMs, latencyMs: Date.now() - checkedAtMs, error: null };
+  } catch (e) {
+    return { ok: false, provider: provider.name, checkedAtMs, latencyMs: null, error: e instanceof Error ? e.message : String(e) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Ready when the beacon registry was loaded and has at least one active
+// beacon. An unreachable cTRNG is reported but only fails readiness with
+// READY_REQUIRE_CTRNG, since nonces then still come from the CSPRNG.
+export async function readiness() {
+  const reg = registryStatus();
+  const activeBeacons = listBeacons().filter(b => b.status === "active").length;
+  const registry = { ok: reg.loadedAtMs !== null && activeBeacons > 0, ...reg, activeBeacons };
+  const ctrng = { ...(await probeCtrng()), required: config.readyRequireCtrng };
+  return { ready: registry.ok && (ctrng.ok || !ctrng.required), checks: { registry, ctrng } };
+}
@@ -1,38 +1,168 @@
-import Fastify from "fastify";
+import Fastify, { type FastifyError, type FastifyRequest } from "fastify";
 import cors from "@fastify/cors";
-import nacl from "tweetnacl";
+import websocket from "@fastify/websocket";
+import { Readable } from "node:stream";
 import { z } from "zod";
-import { bytesToHex, hexToBytes, buildMessage, randomNonce16 } from "./crypto.js";
-import { loadBeaconRegistry, getPublicKeyHex } from "./registry.js";
+import {
+  BEACON_ALGS, BEACON_STATUSES, bytesToHex, MSG_VERSIONS, NONCE_SOURCES, POOL_OUTCOMES, RATE_LIMIT_ERRORS, RATE_SCOPES, TENANT_AUTH_ERRORS,
+  VERIFY_ERRORS, ZONE_PROOF_ERRORS, type NonceResponse, type VerifyResponse, type ZoneProofErrorCode, type ZoneVerifyResponse,
+} from "@spacescrypt/protocol";
+import { initEntropyPool, getEntropyPool, randomNonce16 } from "./pool.js";
+import {
+  loadBeaconRegistry, watchBeaconRegistry, getBeacon, listBeacons, putBeacon, deleteBeacon,
+  validateBeaconRecord, keyFromJson, beaconFromJson, beaconToJson, adminBeaconView, publicBeaconView,
+  type BeaconRecord, type BeaconJson, type BeaconKeyJson,
+} from "./registry.js";
+import { initNonceLedger, issueNonce } from "./nonces.js";
+import { loadAttestationKeys, verifyAttestation, signZoneAttestation, getJwks } from "./attest.js";
+import { verifyProof, verifyProofs, type VerifyError } from "./verify.js";
+import { initAuditLog, recordVerification, recordVerifications, queryVerifications, iterateVerifications, countVerifications, toCsv, toNdjson, type VerificationRecord } from "./audit.js";
+import { adminOrTenantAuth, metricsAuth, requireAdmin, tenantAuth, streamViewer, type StreamViewer } from "./auth.js";
+import { initMetrics, observeVerifyDuration, renderMetrics } from "./metrics.js";
+import { readiness } from "./health.js";
+import { initPresence, listSessions, presenceTotals, recordHeartbeat } from "./presence.js";
+import { getBeaconHealth, initBeaconHealth, listAlerts } from "./beaconhealth.js";
+import { appendLeaf, consistencyProof, inclusionProof, initTransparencyLog, latestTreeHead, verificationOfLeaf } from "./translog.js";
+import { buildProofBundle, type BundleError } from "./bundles.js";
+import { beaconLockedUntil, initRateLimits, rateLimit } from "./ratelimit.js";
+import {
+  initTenants, getTenant, listTenants, putTenant, createApiKey, listApiKeys, revokeApiKey,
+  recordUsage, getUsage, isAllowedOrigin, ownsBeacon,
+} from "./tenants.js";
+import {
+  initWebhooks, listWebhooks, createWebhook, updateWebhook, deleteWebhook, getWebhook,
+  listDeliveries, listAttempts, redeliver, type DeliveryStatus,
+} from "./webhooks.js";
+import { initZones, getZone, listZones, putZone, deleteZone, validateZone, bestQuorum, DEFAULT_ZONE_WINDOW_MS, type Zone } from "./zones.js";
+import { publish, subscribe, eventsSince, type BusEvent, type VerificationOutcome } from "./events.js";
+import { config } from "./config.js";
 import swagger from "@fastify/swagger";
 import swaggerUI from "@fastify/swagger-ui";
 import Ajv from "ajv";
 import addFormats from "ajv-formats";
 
-const app = Fastify();
-await app.register(cors, { origin: ['https://spacecomputer-capstone.github.io'] });
+const app = Fastify({ trustProxy: config.trustProxy });
+// Static CORS_ORIGINS plus every tenant's registered origins
+await app.register(cors, { origin: (origin, cb) => cb(null, !origin || isAllowedOrigin(origin)) });
+app.decorateRequest("tenant", null);
+app.decorateRequest("apiKeyId", null);
+await app.register(websocket);
 
 const ajv = new Ajv({ strict: false, allErrors: true });
 addFormats(ajv);
 ajv.addKeyword('example');
 app.setValidatorCompiler(({ schema }) => ajv.compile(schema));
 
+// Schema (ajv) and zod failures, and any other 4xx, are client errors
+app.setErrorHandler<FastifyError>((err, _req, res) => {
+  if (err instanceof z.ZodError) {
+    const details = err.issues.map(i => ({ path: i.path.join("."), message: i.message }));
+    return res.code(400).send({ ok: false, error: "bad_request", details });
+  }
+  if (err.validation) {
+    const details = err.validation.map(v => ({
+      path: v.instancePath.slice(1).replace(/\//g, ".") || String(v.params.missingProperty ?? ""),
+      message: v.message ?? "invalid",
+    }));
+    return res.code(400).send({ ok: false, error: "bad_request", details });
+  }
+  // Fastify's own 4xx (malformed JSON, body too large, unsupported media type)
+  const status = err.statusCode ?? 500;
+  if (status < 500) {
+    return res.code(status).send({ ok: false, error: "bad_request", details: [{ path: "", message: err.message }] });
+  }
+  console.error(err);
+  return res.code(status).send({ ok: false, error: "internal_error" });
+});
+
+// Latency of every verify route, including rejected and rate-limited calls
+const VERIFY_ROUTES = new Set(["/api/verify", "/api/verify/batch", "/api/zones/:zoneId/verify"]);
+app.addHook("onResponse", async (req, res) => {
+  const route = req.routeOptions.url;
+  if (route && VERIFY_ROUTES.has(route)) observeVerifyDuration(route, res.elapsedTime / 1000);
+});
+
 loadBeaconRegistry();
+watchBeaconRegistry();
+initNonceLedger();
+initRateLimits();
+loadAttestationKeys();
+initAuditLog();
+initTenants();
+initZones();
+initPresence();
+initBeaconHealth();
+initWebhooks();
+initTransparencyLog();
+initEntropyPool();
+initMetrics();
 
 // swagger
 await app.register(swagger, {
   openapi: {
     info: { title: "Spacecomputer API (MVP)", version: "0.0.1" },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKey: { type: "apiKey", in: "header", name: "X-Api-Key" }
+      }
+    },
     servers: [{ url: "https://spacescrypt-api.onrender.com" }]
   }
 });
 await app.register(swaggerUI, { routePrefix: "/docs", staticCSP: true });
 
+// 401/403 from tenantAuth and tenant scoping
+const tenantErrorSchema = {
+  type: "object",
+  properties: {
+    ok: { type: "boolean", const: false, example: false },
+    error: {
+      type: "string",
+      enum: [...TENANT_AUTH_ERRORS],
+      example: "invalid_api_key"
+    }
+  },
+  required: ["ok", "error"]
+} as const;
+// 429 from rateLimit; Retry-After says when to come back
+const rateLimitedSchema = {
+  type: "object",
+  properties: {
+    ok: { type: "boolean", const: false, example: false },
+    error: { type: "string", enum: [...RATE_LIMIT_ERRORS], example: "rate_limited" },
+    scope: { type: "string", enum: [...RATE_SCOPES], description: "Which bucket ran out", example: "ip" },
+    retryAfterS: { type: "integer", example: 2 }
+  },
+  required: ["ok", "error", "retryAfterS"]
+} as const;
+// Key optional unless REQUIRE_API_KEY
+const tenantSecurity: Record<string, string[]>[] = [{ apiKey: [] }, {}];
+
 // GET /api/nonce -> { nonceHex }
 app.get("/api/nonce", {
+  preHandler: [tenantAuth, rateLimit("nonce")],
   schema: {
     tags: ["nonce"],
-    description: "Returns a 16-byte random nonce from the cTRNG API as a lowercase hex value (32 chars).",
+    description: "Returns a 16-byte random nonce as a lowercase hex value (32 chars), with the randomness provider it came from (ENTROPY_PROVIDERS, cTRNG first by default). The nonce is single-use and expires after NONCE_TTL_MS; pass beaconIdHex to bind it to one beacon. Nonces are sliced from prefetched cTRNG output (POOL_SIZE); `pool` reports whether this one came from the pool (hit), a live draw because the pool was dry (miss), or the local CSPRNG because every provider failed (degraded). With an X-Api-Key the nonce belongs to that tenant, and beaconIdHex must be one of its beacons. Pass sessionHex to issue the nonce for a zone check-in session; it is then only accepted by /api/zones/:zoneId/verify for that session. Rate limited per API key (or client IP without one) and per beacon: 429 rate_limited with Retry-After and RateLimit-* headers, or beacon_locked while the beacon is locked out after repeated bad signatures.",
+    security: tenantSecurity,
+    querystring: {
+      type: "object",
+      properties: {
+        beaconIdHex: {
+          type: "string",
+          pattern: "^[0-9a-fA-F]{16}$",
+          example: "a1b2c3d4e5f60708"
+        },
+        sessionHex: {
+          type: "string",
+          pattern: "^[0-9a-fA-F]{64}$",
+          description: "Zone check-in session (32 random bytes chosen by the client) to bind the nonce to",
+          example: "22".repeat(32)
+        }
+      },
+      additionalProperties: false
+    },
     response: {
       200: {
         type: "object",
@@ -41,90 +171,2099 @@ app.get("/api/nonce", {
             type: "string",
             pattern: "^[0-9a-f]{32}$",
             example: "0123456789abcdef0123456789abcdef" 
+          },
+          source: {
+            type: "string",
+            enum: [...NONCE_SOURCES],
+            description: "Randomness provider that produced the nonce",
+            example: "orbitport"
+          },
+          receipt: {
+            type: "object",
+            additionalProperties: true,
+            description: "Whatever the upstream cTRNG returned alongside the bytes (e.g. signature, source)"
+          },
+          fallbackFrom: {
+            type: "array",
+            items: { type: "string" },
+            description: "Providers that failed before `source` answered; empty when the preferred one worked",
+            example: []
+          },
+          pool: {
+            type: "string",
+            enum: [...POOL_OUTCOMES],
+            description: "How the entropy pool served this nonce",
+            example: "hit"
           }
         },
-        required: ["nonceHex"],
+        required: ["nonceHex", "source", "pool"],
         additionalProperties: false
-      }
+      },
+      401: tenantErrorSchema,
+      403: tenantErrorSchema,
+      429: rateLimitedSchema
     }
   }
-}, async (_req, res) => {
-  const nonce = await randomNonce16();  // Added await here
-  return res.send({ nonceHex: bytesToHex(nonce) });
+}, async (req, res) => {
+  const { beaconIdHex, sessionHex } = req.query as { beaconIdHex?: string; sessionHex?: string };
+  if (req.tenant && beaconIdHex && !ownsBeacon(req.tenant, beaconIdHex)) {
+    return res.code(403).send({ ok: false, error: "beacon_not_owned" });
+  }
+  const entropy = await randomNonce16();
+  if (req.tenant) recordUsage(req.tenant.tenantId, "nonce");
+  const rec = await issueNonce({
+    nonceHex: bytesToHex(entropy.bytes),
+    beaconIdHex,
+    tenantId: req.tenant?.tenantId,
+    sessionHex,
+    source: entropy.source,
+    receipt: entropy.receipt,
+  });
+  publish({
+    type: "nonce.issued",
+    beaconIdHex: rec.beaconIdHex ?? null,
+    tenantId: rec.tenantId ?? null,
+    data: { source: entropy.source, pool: entropy.pool, fallbackFrom: entropy.fallbackFrom },
+  });
+  return res.send({
+    nonceHex: rec.nonceHex,
+    source: entropy.source,
+    receipt: entropy.receipt,
+    fallbackFrom: entropy.fallbackFrom,
+    pool: entropy.pool,
+  } satisfies NonceResponse);
 });
 
-// POST /api/verify -> { ok }
+// GET /api/entropy/pool -> { enabled, size, capacity, sourceMix, served, ... }
+app.get("/api/entropy/pool", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["nonce"],
+    description: "Fill level and source mix of the prefetched nonce pool, plus how many nonces were served as hit / miss / degraded.",
+    security: [{ bearerAuth: [] }],
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          enabled: { type: "boolean" },
+          size: { type: "integer", example: 48 },
+          capacity: { type: "integer", example: 64 },
+          lowWater: { type: "integer", example: 16 },
+          refilling: { type: "boolean" },
+          sourceMix: {
+            type: "object",
+            additionalProperties: { type: "integer" },
+            example: { orbitport: 40, csprng: 8 }
+          },
+          served: {
+            type: "object",
+            properties: {
+              hit: { type: "integer" },
+              miss: { type: "integer" },
+              degraded: { type: "integer" },
+              disabled: { type: "integer" }
+            }
+          },
+          duplicatesDropped: { type: "integer" },
+          lastRefillAtMs: { type: ["integer", "null"] },
+          lastError: { type: ["string", "null"] }
+        }
+      }
+    }
+  }
+}, async () => getEntropyPool().status());
+
+// One beacon proof as submitted to /api/verify and /api/verify/batch
+const proofSchema = {
+  type: "object",
+  properties: {
+    beaconIdHex: {
+      type: "string",
+      pattern: "^[0-9a-fA-F]{16}$",
+      example: "a1b2c3d4e5f60708"
+    },
+    nonceHex: {
+      type: "string",
+      pattern: "^[0-9a-fA-F]{32}$",
+      example: "0123456789abcdef0123456789abcdef"
+    },
+    tsMs: {
+      type: "string",
+      pattern: "^[0-9]+$",
+      example: "1739550123456"
+    },
+    sigHex: {
+      type: "string",
+      pattern: "^[0-9a-fA-F]{128}$",
+      description: "64 bytes for either beacon alg: Ed25519, or P-256 raw r || s with low S",
+      example: "00".repeat(64)
+    },
+    msgVersion: {
+      type: "integer",
+      enum: [...MSG_VERSIONS],
+      description: "Signed message format; 1 (default) = nonce || ts_be64, 2 = domain-separated and bound to the beacon id (and sessionHex)",
+      example: 2
+    },
+    sessionHex: {
+      type: "string",
+      pattern: "^[0-9a-fA-F]{64}$",
+      description: "Optional 32-byte session/user binding signed into a v2 message; echoed in the attestation",
+      example: "11".repeat(32)
+    }
+  },
+  required: ["beaconIdHex", "nonceHex", "tsMs", "sigHex"],
+  additionalProperties: false,
+} as const;
+
+const proofBody = z.object({
+  beaconIdHex: z.string().regex(/^[0-9a-f]{16}$/i, "beaconId must be 8 bytes hex"),
+  nonceHex:    z.string().regex(/^[0-9a-f]{32}$/i,   "nonce must be 16 bytes hex"),
+  tsMs:        z.string().regex(/^[0-9]+$/,          "tsMs must be a decimal string"),
+  sigHex:      z.string().regex(/^[0-9a-f]{128}$/i,  "signature must be 64 bytes hex (Ed25519, or P-256 r || s)"),
+  msgVersion:  z.union([z.literal(1), z.literal(2)]).optional(),
+  sessionHex:  z.string().regex(/^[0-9a-f]{64}$/i,   "session must be 32 bytes hex").optional()
+}).refine(b => !b.sessionHex || b.msgVersion === 2, { path: ["sessionHex"], message: "sessionHex needs msgVersion 2" });
+
+const presenceSessionSchema = {
+  type: "object",
+  properties: {
+    sessionId: { type: "integer", example: 7 },
+    presenceId: { type: "string", example: "33".repeat(16) },
+    beaconIdHex: { type: "string", example: "a1b2c3d4e5f60708" },
+    tenantId: { type: ["string", "null"] },
+    startedAtMs: { type: "integer", example: 1760428800000 },
+    lastSeenAtMs: { type: "integer", example: 1760432400000 },
+    endedAtMs: { type: ["integer", "null"], description: "Last heartbeat of a closed session; null while open" },
+    heartbeats: { type: "integer", example: 121 }
+  },
+  required: ["sessionId", "presenceId", "beaconIdHex", "startedAtMs", "lastSeenAtMs", "endedAtMs", "heartbeats"]
+} as const;
+
+// Audit row for a proof that never reached a verdict (bad_request, crashes)
+function unverifiedRecord(b: Record<string, unknown>, err: FastifyError, req: FastifyRequest): Omit<VerificationRecord, "id"> {
+  const str = (v: unknown) => (typeof v === "string" ? v.slice(0, 256) : null);
+  return {
+    serverTimeMs: Date.now(),
+    beaconIdHex: str(b.beaconIdHex),
+    nonceHex: str(b.nonceHex),
+    tsMs: str(b.tsMs),
+    sigHex: str(b.sigHex),
+    msgVersion: b.msgVersion === 2 ? 2 : 1,
+    sessionHex: str(b.sessionHex),
+    result: "fail",
+    error: err.validation || err instanceof z.ZodError ? "bad_request" : "internal_error",
+    clientIp: req.ip,
+    tenantId: req.tenant?.tenantId ?? null,
+    nonceSource: null,
+    nonceReceipt: null,
+  };
+}
+
+// Feeds webhooks and the live event stream
+function publishVerification(o: VerificationOutcome) {
+  publish({ type: "verification", beaconIdHex: o.beaconIdHex, tenantId: o.tenantId, data: o });
+}
+
+// /api/verify takes one proof, optionally as a stay-checked-in heartbeat
+const verifyBodySchema = {
+  ...proofSchema,
+  properties: {
+    ...proofSchema.properties,
+    presenceId: {
+      type: "string",
+      pattern: "^[0-9a-fA-F]{32}$",
+      description: "Random 16-byte id a client keeps for one stay-checked-in run; a verified proof with it extends that presence session",
+      example: "33".repeat(16)
+    }
+  }
+} as const;
+
+// POST /api/verify -> { ok, attestation, session? }
 app.post("/api/verify", {
+  preHandler: [tenantAuth, rateLimit("verify")],
+  schema: {
+    tags: ["verify"],
+    description: "Verify the beacon's signature (Ed25519, or ECDSA P-256 over SHA-256 as raw r || s, rejected as bad_signature when S is high; per the beacon's alg) over message v1 = nonce(16) || ts_be64(8), or v2 = 0x02 || \"spacescrypt/presence/v2\" || beaconId(8) || nonce(16) || ts_be64(8) || (0x00 | 0x01 || session(32)) when msgVersion is 2. Each beacon may restrict which formats it accepts (msg_version_not_allowed). With an X-Api-Key only the tenant's own beacons (beacon_not_owned) and nonces (nonce_tenant_mismatch) are accepted. The nonce must come from /api/nonce, be unused and within its TTL (unknown_nonce, nonce_expired, nonce_already_used, nonce_beacon_mismatch). tsMs must fall between nonce issuance and now within TS_MAX_SKEW_MS / TS_MAX_LATENCY_MS (ts_before_nonce, ts_in_future, ts_too_old). The beacon must be active (beacon_inactive) and the signing key valid and unrevoked at tsMs (key_revoked, no_valid_key). Rate limited like /api/nonce (429 rate_limited); after LOCKOUT_FAILURES bad signatures (over as many distinct nonces) within LOCKOUT_WINDOW_MS the beacon is refused for LOCKOUT_MS (429 beacon_locked). With presenceId, a verified proof is a heartbeat: it starts or extends a presence session (see GET /api/sessions), which closes once no heartbeat arrives for PRESENCE_LAPSE_MS.",
+    body: verifyBodySchema,
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean", example: true },
+          attestation: {
+            type: "string",
+            description: "EdDSA JWT attesting the verified presence; check it against /.well-known/jwks.json",
+            example: "eyJhbGciOiJFZERTQSIsInR5cCI6IkpXVCIsImtpZCI6IjIwMjYtMTAifQ.eyJ...In0.c2ln..."
+          },
+          session: { ...presenceSessionSchema, description: "The presence session this heartbeat extended (only with presenceId)" }
+        },
+        required: ["ok"],
+        example: { ok: true, attestation: "eyJhbGciOiJFZERTQSIsInR5cCI6IkpXVCIsImtpZCI6IjIwMjYtMTAifQ.eyJ...In0.c2ln..." }
+      },
+      400: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean", const: false, example: false },
+          error: { type: "string", enum: [...VERIFY_ERRORS, "bad_request"], example: "unknown_beacon" },
+          details: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                path: { type: "string", example: "sigHex" },
+                message: { type: "string", example: "must match pattern \"^[0-9a-fA-F]{128}$\"" }
+              }
+            }
+          }
+        },
+        required: ["ok", "error"],
+        example: { ok: false, error: "unknown_beacon" }
+      },
+      401: tenantErrorSchema,
+      403: tenantErrorSchema,
+      429: rateLimitedSchema
+    },
+    security: tenantSecurity
+  },
+  // Requests that never reach a verdict (bad_request, crashes) are audited here
+  onError: async (req, _res, err) => {
+    recordVerification(unverifiedRecord((req.body ?? {}) as Record<string, unknown>, err, req));
+  }
+}, async (req, res) => {
+  const body = proofBody.parse(req.body);
+
+  // One clock reading, so the audit row and the attestation agree
+  const nowMs = Date.now();
+  const result = await verifyProof(body, nowMs, req.tenant);
+  if (req.tenant) {
+    recordUsage(req.tenant.tenantId, "verify");
+    if (result.ok) recordUsage(req.tenant.tenantId, "verify_ok");
+  }
+  const verificationId = recordVerification({
+    serverTimeMs: nowMs,
+    ...body,
+    msgVersion: body.msgVersion ?? 1,
+    result: result.ok ? "ok" : "fail",
+    error: result.ok ? null : result.error,
+    clientIp: req.ip,
+    tenantId: req.tenant?.tenantId ?? null,
+    nonceSource: result.nonce?.source ?? null,
+    nonceReceipt: result.nonce?.receipt ?? null,
+  });
+  if (result.ok) appendLeaf(result.attestation, verificationId, nowMs);
+  publishVerification({
+    verificationId,
+    beaconIdHex: body.beaconIdHex.toLowerCase(),
+    nonceHex: body.nonceHex.toLowerCase(),
+    tsMs: body.tsMs,
+    result: result.ok ? "ok" : "fail",
+    error: result.ok ? null : result.error,
+    tenantId: req.tenant?.tenantId ?? null,
+    attestation: result.ok ? result.attestation : undefined,
+  });
+  if (!result.ok && result.error === "beacon_locked") {
+    // Locked between rateLimit and here, typically by a concurrent failure
+    const retryAfterS = Math.ceil(((await beaconLockedUntil(body.beaconIdHex) ?? Date.now()) - Date.now()) / 1000);
+    res.header("retry-after", retryAfterS);
+    return res.code(429).send({ ok: false, error: "beacon_locked", retryAfterS });
+  }
+  if (!result.ok) return res.code(400).send({ ok: false, error: result.error } satisfies VerifyResponse);
+  const { presenceId } = req.body as { presenceId?: string };
+  const session = presenceId
+    ? recordHeartbeat({ presenceId, beaconIdHex: body.beaconIdHex, tenantId: req.tenant?.tenantId ?? null })
+    : undefined;
+  return res.send({ ok: true, attestation: result.attestation, session } satisfies VerifyResponse);
+});
+
+// POST /api/verify/batch -> { results: [{ ok, attestation } | { ok, error }], okCount, failCount }
+app.post("/api/verify/batch", {
+  preHandler: [tenantAuth, rateLimit("verify")],
   schema: {
     tags: ["verify"],
-    description: "Verify Ed25519 signature over message = nonce(16) || ts_be64(8).",
+    description: `Verify up to VERIFY_BATCH_MAX (${config.verifyBatchMax}) proofs in one call, e.g. from a gateway that collected them offline. Every proof goes through exactly the same checks as /api/verify and gets its own result (same error codes) at the same index; one failing proof does not affect the others. Each beacon and key is looked up once per call and the audit log is written in a single transaction; signatures are still checked one by one. A nonce repeated within the batch is accepted at most once. A malformed proof rejects the whole batch with bad_request. Each proof costs one rate-limit token (429 rate_limited); proofs for a locked-out beacon fail with beacon_locked.`,
     body: {
       type: "object",
       properties: {
-        beaconIdHex: {
-          type: "string",
-          pattern: "^[0-9a-fA-F]{16}$",
-          example: "a1b2c3d4e5f60708"
-        },
-        nonceHex: {
-          type: "string",
-          pattern: "^[0-9a-fA-F]{32}$",
-          example: "0123456789abcdef0123456789abcdef"
-        },
-        tsMs: {
-          type: "string",
-          pattern: "^[0-9]+$",
-          example: "1739550123456"
+        proofs: { type: "array", items: proofSchema, minItems: 1, maxItems: config.verifyBatchMax }
+      },
+      required: ["proofs"],
+      additionalProperties: false
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          results: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                ok: { type: "boolean" },
+                attestation: { type: "string" },
+                error: { type: "string" }
+              },
+              required: ["ok"]
+            }
+          },
+          okCount: { type: "integer", example: 1 },
+          failCount: { type: "integer", example: 1 }
         },
-        sigHex: {
-          type: "string",
-          pattern: "^[0-9a-fA-F]{128}$",
-          example: "00".repeat(64) 
+        required: ["results", "okCount", "failCount"],
+        example: {
+          results: [{ ok: true, attestation: "eyJhbGciOiJFZERTQSIs..." }, { ok: false, error: "nonce_expired" }],
+          okCount: 1,
+          failCount: 1
         }
       },
-      required: ["beaconIdHex", "nonceHex", "tsMs", "sigHex"],
-      additionalProperties: false,
+      401: tenantErrorSchema,
+      403: tenantErrorSchema,
+      429: rateLimitedSchema
+    },
+    security: tenantSecurity
+  },
+  onError: async (req, _res, err) => {
+    const proofs = (req.body as { proofs?: unknown } | undefined)?.proofs;
+    const items = Array.isArray(proofs) ? proofs.slice(0, config.verifyBatchMax) : [{}];
+    recordVerifications(items.map(b => unverifiedRecord((b ?? {}) as Record<string, unknown>, err, req)));
+  }
+}, async (req, res) => {
+  const { proofs } = z.object({ proofs: z.array(proofBody).min(1).max(config.verifyBatchMax) }).parse(req.body);
+
+  const nowMs = Date.now();
+  const results = await verifyProofs(proofs, nowMs, req.tenant);
+  const okCount = results.filter(r => r.ok).length;
+  if (req.tenant) {
+    recordUsage(req.tenant.tenantId, "verify", results.length);
+    if (okCount) recordUsage(req.tenant.tenantId, "verify_ok", okCount);
+  }
+  const ids = recordVerifications(results.map((r, i) => ({
+    serverTimeMs: nowMs,
+    ...proofs[i],
+    msgVersion: proofs[i].msgVersion ?? 1,
+    result: r.ok ? "ok" : "fail",
+    error: r.ok ? null : r.error,
+    clientIp: req.ip,
+    tenantId: req.tenant?.tenantId ?? null,
+    nonceSource: r.nonce?.source ?? null,
+    nonceReceipt: r.nonce?.receipt ?? null,
+  })));
+  results.forEach((r, i) => r.ok && appendLeaf(r.attestation, ids[i], nowMs));
+  results.forEach((r, i) => publishVerification({
+    verificationId: ids[i],
+    beaconIdHex: proofs[i].beaconIdHex.toLowerCase(),
+    nonceHex: proofs[i].nonceHex.toLowerCase(),
+    tsMs: proofs[i].tsMs,
+    result: r.ok ? "ok" : "fail",
+    error: r.ok ? null : r.error,
+    tenantId: req.tenant?.tenantId ?? null,
+    attestation: r.ok ? r.attestation : undefined,
+  }));
+  return res.send({
+    results: results.map(r => (r.ok ? { ok: true, attestation: r.attestation } : { ok: false, error: r.error })),
+    okCount,
+    failCount: results.length - okCount,
+  });
+});
+
+// from/to query params: epoch ms or ISO-8601
+const timeParam = z.string().transform((v, ctx) => {
+  const ms = /^[0-9]+$/.test(v) ? Number(v) : Date.parse(v);
+  if (Number.isNaN(ms)) {
+    ctx.addIssue({ code: "custom", message: "must be epoch ms or ISO-8601" });
+    return z.NEVER;
+  }
+  return ms;
+}).optional();
+const timeRange = z.object({ from: timeParam, to: timeParam });
+
+// GET /api/verifications -> { items, nextCursor } | CSV | NDJSON
+app.get("/api/verifications", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["audit"],
+    description: "Verification audit log, newest first (admin). Filter by beacon, tenant, time range (epoch ms or ISO-8601, [from, to)) and result; page with cursor. format=csv|ndjson exports every matching row.",
+    security: [{ bearerAuth: [] }],
+    querystring: {
+      type: "object",
+      properties: {
+        beaconIdHex: { type: "string", pattern: "^[0-9a-fA-F]{16}$" },
+        tenantId: { type: "string", example: "attendance-app" },
+        from: { type: "string", example: "2026-10-13T00:00:00Z" },
+        to: { type: "string", example: "2026-10-14T00:00:00Z" },
+        result: { type: "string", enum: ["ok", "fail"] },
+        cursor: { type: "string", pattern: "^[0-9]+$" },
+        limit: { type: "string", pattern: "^[0-9]{1,4}$", example: "100" },
+        format: { type: "string", enum: ["json", "csv", "ndjson"], default: "json" }
+      },
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const q = req.query as {
+    beaconIdHex?: string; tenantId?: string; from?: string; to?: string; result?: "ok" | "fail";
+    cursor?: string; limit?: string; format: "json" | "csv" | "ndjson";
+  };
+  const range = timeRange.parse({ from: q.from, to: q.to });
+  const filter = {
+    beaconIdHex: q.beaconIdHex,
+    tenantId: q.tenantId,
+    fromMs: range.from,
+    toMs: range.to,
+    result: q.result,
+    cursor: q.cursor,
+  };
+
+  if (q.format === "csv") {
+    return res.type("text/csv; charset=utf-8")
+      .header("content-disposition", 'attachment; filename="verifications.csv"')
+      .send(Readable.from(toCsv(iterateVerifications(filter))));
+  }
+  if (q.format === "ndjson") {
+    return res.type("application/x-ndjson")
+      .send(Readable.from(toNdjson(iterateVerifications(filter))));
+  }
+  return res.send(queryVerifications({ ...filter, limit: q.limit ? Number(q.limit) : undefined }));
+});
+
+const BUCKET_MS = { hour: 3_600_000, day: 86_400_000 } as const;
+
+// GET /api/verifications/stats -> { bucket, buckets: [{ startMs, ok, fail }] }
+app.get("/api/verifications/stats", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["audit"],
+    description: "Successful and failed verifications per hour or per UTC day (admin), oldest first, for charts. Same beacon/tenant/time filters as /api/verifications. Buckets without verifications are omitted.",
+    security: [{ bearerAuth: [] }],
+    querystring: {
+      type: "object",
+      properties: {
+        beaconIdHex: { type: "string", pattern: "^[0-9a-fA-F]{16}$" },
+        tenantId: { type: "string", example: "attendance-app" },
+        from: { type: "string", example: "2026-10-13T00:00:00Z" },
+        to: { type: "string", example: "2026-10-14T00:00:00Z" },
+        bucket: { type: "string", enum: ["hour", "day"], default: "hour" }
+      },
+      additionalProperties: false
     },
     response: {
       200: {
         type: "object",
-        properties: { ok: { type: "boolean", example: true } },
-        required: ["ok"],
-        example: { ok: true }
+        properties: {
+          bucket: { type: "string", enum: ["hour", "day"] },
+          buckets: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                startMs: { type: "integer" },
+                ok: { type: "integer" },
+                fail: { type: "integer" }
+              },
+              required: ["startMs", "ok", "fail"]
+            }
+          }
+        },
+        required: ["bucket", "buckets"]
+      }
+    }
+  }
+}, async (req, res) => {
+  const q = req.query as { beaconIdHex?: string; tenantId?: string; from?: string; to?: string; bucket?: "hour" | "day" };
+  const bucket = q.bucket ?? "hour";
+  const range = timeRange.parse({ from: q.from, to: q.to });
+  const buckets = countVerifications(
+    { beaconIdHex: q.beaconIdHex, tenantId: q.tenantId, fromMs: range.from, toMs: range.to },
+    BUCKET_MS[bucket],
+  );
+  return res.send({ bucket, buckets });
+});
+
+// ====== Live events ======
+
+const eventsQuerySchema = {
+  type: "object",
+  properties: {
+    beaconIdHex: {
+      type: "string",
+      pattern: "^[0-9a-fA-F]{16}(,[0-9a-fA-F]{16})*$",
+      description: "Only events for these beacons (comma-separated)"
+    },
+    types: {
+      type: "string",
+      pattern: "^(nonce\\.issued|verification|beacon\\.alert)(,(nonce\\.issued|verification|beacon\\.alert))*$",
+      description: "Only these event types (comma-separated)",
+      example: "verification"
+    },
+    lastEventId: {
+      type: "string",
+      pattern: "^[0-9]+$",
+      description: "Resume after this event id (same as the Last-Event-ID header)"
+    },
+    access_token: {
+      type: "string",
+      description: "Admin token or tenant API key, for clients that cannot set headers"
+    }
+  },
+  additionalProperties: false
+} as const;
+type EventsQuery = { beaconIdHex?: string; types?: string; lastEventId?: string };
+
+// Tenants see events for the beacons they own and for their own requests
+function eventFilter(viewer: StreamViewer, q: EventsQuery): (e: BusEvent) => boolean {
+  const beacons = q.beaconIdHex?.toLowerCase().split(",");
+  const types = q.types?.split(",");
+  return e =>
+    (!types || types.includes(e.type)) &&
+    (!beacons || (e.beaconIdHex !== null && beacons.includes(e.beaconIdHex))) &&
+    (viewer.kind === "admin" ||
+      e.tenantId === viewer.tenant.tenantId ||
+      (e.beaconIdHex !== null && ownsBeacon(viewer.tenant, e.beaconIdHex)));
+}
+
+// Attestation tokens stay off the wire; the stream is for dashboards
+function streamPayload(e: BusEvent) {
+  return e.type === "verification" ? { ...e, data: { ...e.data, attestation: undefined } } : e;
+}
+
+// Replays buffered events after lastId, then follows the bus. `send` gets
+// every matching event, `control` the gap notice and heartbeats. Returns the
+// function that stops following.
+function followEvents(
+  match: (e: BusEvent) => boolean,
+  lastId: number | undefined,
+  send: (e: BusEvent) => void,
+  control: (type: "gap" | "heartbeat", data: Record<string, unknown>) => void
+): () => void {
+  if (lastId !== undefined) {
+    const { events, gap } = eventsSince(lastId);
+    if (gap) control("gap", { lastEventId: lastId });
+    events.filter(match).forEach(send);
+  }
+  const unsubscribe = subscribe(e => {
+    if (match(e)) send(e);
+  });
+  const heartbeat = setInterval(() => control("heartbeat", { atMs: Date.now() }), config.eventHeartbeatMs);
+  return () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+}
+
+// GET /api/events -> text/event-stream
+app.get("/api/events", {
+  schema: {
+    tags: ["events"],
+    description: "Server-Sent Events feed of nonce issuances (nonce.issued), verification outcomes (verification) and beacon health alerts opening or resolving (beacon.alert), for dashboards. Authenticate with the admin token (every event) or a tenant API key (events for its own beacons), as a header or ?access_token=. Reconnects resume from Last-Event-ID while the event is still buffered (EVENT_BUFFER); otherwise a gap event is sent first. A heartbeat event arrives every EVENT_HEARTBEAT_MS.",
+    querystring: eventsQuerySchema,
+    security: [{ bearerAuth: [] }, { apiKey: [] }]
+  }
+}, async (req, res) => {
+  const auth = streamViewer(req);
+  if (!auth.ok) return res.code(401).send({ ok: false, error: auth.error });
+  const q = req.query as EventsQuery;
+  const lastHeader = req.headers["last-event-id"];
+  const last = (typeof lastHeader === "string" && /^[0-9]+$/.test(lastHeader)) ? lastHeader : q.lastEventId;
+
+  // Hand the socket over to us; keep the headers (CORS) set by hooks so far
+  res.hijack();
+  for (const [name, value] of Object.entries(res.getHeaders())) {
+    if (value !== undefined) res.raw.setHeader(name, value);
+  }
+  res.raw.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.raw.write("retry: 3000\n\n");
+  const stop = followEvents(
+    eventFilter(auth.viewer, q),
+    last === undefined ? undefined : Number(last),
+    e => res.raw.write(`id: ${e.id}\nevent: ${e.type}\ndata: ${JSON.stringify(streamPayload(e))}\n\n`),
+    (type, data) => res.raw.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`),
+  );
+  req.raw.on("close", stop);
+});
+
+// GET /api/events/ws -> WebSocket, one JSON message per event
+app.get("/api/events/ws", {
+  websocket: true,
+  schema: {
+    tags: ["events"],
+    description: "WebSocket variant of /api/events. Each message is a JSON event ({ id, type, atMs, beaconIdHex, tenantId, data }), or { type: \"gap\" | \"heartbeat\" }. Same filters and credentials; resume with ?lastEventId=. Closes with code 4401 when unauthenticated.",
+    querystring: eventsQuerySchema,
+    security: [{ bearerAuth: [] }, { apiKey: [] }]
+  }
+}, (socket, req) => {
+  const auth = streamViewer(req);
+  if (!auth.ok) {
+    socket.close(4401, auth.error);
+    return;
+  }
+  const q = req.query as EventsQuery;
+  const send = (msg: unknown) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(msg));
+  };
+  const stop = followEvents(
+    eventFilter(auth.viewer, q),
+    q.lastEventId === undefined ? undefined : Number(q.lastEventId),
+    e => send(streamPayload(e)),
+    (type, data) => send({ type, ...data }),
+  );
+  socket.on("close", stop);
+});
+
+// ====== Beacon registry ======
+const beaconKeySchema = {
+  type: "object",
+  properties: {
+    publicKeyHex: {
+      type: "string",
+      pattern: "^([0-9a-fA-F]{64}|0[23][0-9a-fA-F]{64}|04[0-9a-fA-F]{128})$",
+      description: "Ed25519: 32 bytes. P-256: SEC1 point, compressed (33 bytes) or uncompressed (65 bytes)",
+      example: "232ced51c270fc5295899f8ea5432bf8ff7d160596f64352c1677a759a030c3c"
+    },
+    notBefore: { type: "string", format: "date-time", example: "2026-01-01T00:00:00Z" },
+    notAfter: { type: "string", format: "date-time", example: "2027-01-01T00:00:00Z" },
+    revoked: { type: "boolean", example: false }
+  },
+  required: ["publicKeyHex"],
+  additionalProperties: false
+} as const;
+const beaconIdSchema = { type: "string", pattern: "^[0-9a-fA-F]{16}$", example: "a1b2c3d4e5f60708" } as const;
+const beaconMetaProps = {
+  label: { type: "string", maxLength: 120, example: "Room 204" },
+  site: { type: "string", maxLength: 120, example: "Lab Building" },
+  location: {
+    type: "object",
+    properties: {
+      lat: { type: "number", minimum: -90, maximum: 90, example: 34.4140 },
+      lon: { type: "number", minimum: -180, maximum: 180, example: -119.8489 }
+    },
+    required: ["lat", "lon"],
+    additionalProperties: false
+  },
+  status: { type: "string", enum: [...BEACON_STATUSES], example: "active" },
+  tags: { type: "array", items: { type: "string", maxLength: 64 }, example: ["lab", "floor-2"] },
+  msgVersions: {
+    type: "array",
+    items: { type: "integer", enum: [...MSG_VERSIONS] },
+    minItems: 1,
+    uniqueItems: true,
+    description: "Signed message formats /api/verify accepts from this beacon (default: all)",
+    example: [2]
+  },
+  alg: {
+    type: "string",
+    enum: [...BEACON_ALGS],
+    description: "Signature algorithm of the beacon's keys (default ed25519); keys must match it",
+    example: "p256"
+  }
+} as const;
+const beaconSchema = {
+  type: "object",
+  properties: {
+    beaconIdHex: beaconIdSchema,
+    ...beaconMetaProps,
+    keys: { type: "array", items: beaconKeySchema }
+  },
+  required: ["beaconIdHex", "keys"]
+} as const;
+const publicBeaconSchema = {
+  type: "object",
+  properties: { beaconIdHex: beaconIdSchema, ...beaconMetaProps },
+  required: ["beaconIdHex", "status", "tags"]
+} as const;
+// Keys as a full list or a single publicKeyHex (shorthand for one unbounded key), plus metadata
+const beaconBodyProps = {
+  publicKeyHex: beaconKeySchema.properties.publicKeyHex,
+  keys: { type: "array", minItems: 1, items: beaconKeySchema },
+  ...beaconMetaProps
+} as const;
+const beaconIdParams = {
+  type: "object",
+  properties: { beaconIdHex: beaconIdSchema },
+  required: ["beaconIdHex"]
+} as const;
+
+type BeaconBody = Partial<Omit<BeaconJson, "keys">> & { publicKeyHex?: string; keys?: BeaconKeyJson[] };
+// Applies a POST/PUT body on top of an existing record (or a blank one)
+function beaconFromBody(beaconIdHex: string, body: BeaconBody, prev?: BeaconRecord): BeaconRecord {
+  const { publicKeyHex, keys, ...meta } = body;
+  const base: BeaconJson = prev ? beaconToJson(prev) : { keys: [] };
+  const nextKeys = keys ?? (publicKeyHex ? [{ publicKeyHex }] : base.keys);
+  return beaconFromJson(beaconIdHex, { ...base, ...meta, keys: nextKeys });
+}
+// putBeacon only rejects what the schemas cannot express (e.g. notAfter <= notBefore)
+function tryPutBeacon(rec: BeaconRecord): string | null {
+  const err = validateBeaconRecord(rec);
+  if (err) return err;
+  putBeacon(rec);
+  return null;
+}
+
+// GET /api/beacons -> { beacons }
+app.get("/api/beacons", {
+  schema: {
+    tags: ["beacons"],
+    description: "Public beacon directory: label, site, location, status and tags of every beacon (no key material).",
+    querystring: {
+      type: "object",
+      properties: {
+        status: beaconMetaProps.status,
+        tag: { type: "string", example: "lab" }
       },
-      400: {
+      additionalProperties: false
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: { beacons: { type: "array", items: publicBeaconSchema } },
+        required: ["beacons"]
+      }
+    }
+  }
+}, async (req, res) => {
+  const { status, tag } = req.query as { status?: string; tag?: string };
+  const beacons = listBeacons()
+    .filter(b => (!status || b.status === status) && (!tag || b.tags.includes(tag)))
+    .map(publicBeaconView);
+  return res.send({ beacons });
+});
+
+// GET /api/beacons/:beaconIdHex -> beacon
+app.get("/api/beacons/:beaconIdHex", {
+  schema: {
+    tags: ["beacons"],
+    description: "Public metadata of one beacon. 404 unknown_beacon if it is not registered.",
+    params: beaconIdParams,
+    response: {
+      200: publicBeaconSchema,
+      404: {
+        type: "object",
+        properties: { ok: { type: "boolean", const: false }, error: { type: "string", example: "unknown_beacon" } },
+        required: ["ok", "error"]
+      }
+    }
+  }
+}, async (req, res) => {
+  const { beaconIdHex } = req.params as { beaconIdHex: string };
+  const rec = getBeacon(beaconIdHex);
+  if (!rec) return res.code(404).send({ ok: false, error: "unknown_beacon" });
+  return res.send(publicBeaconView(rec));
+});
+
+const beaconAlertSchema = {
+  type: "object",
+  properties: {
+    id: { type: "integer" },
+    beaconIdHex: beaconIdSchema,
+    kind: { type: "string", enum: ["clock_drift", "silent", "bad_signatures"] },
+    message: { type: "string", example: "Clock 7312 ms ahead of the server" },
+    openedAtMs: { type: "integer" },
+    resolvedAtMs: { type: ["integer", "null"], description: "null while open" }
+  },
+  required: ["id", "beaconIdHex", "kind", "message", "openedAtMs", "resolvedAtMs"]
+} as const;
+
+// GET /api/beacons/:beaconIdHex/health -> health
+app.get("/api/beacons/:beaconIdHex/health", {
+  preHandler: adminOrTenantAuth,
+  schema: {
+    tags: ["beacons"],
+    description: "What the beacon's proofs say about it, counting only proofs whose signature was checked and each nonce once: verification counts, the signature failure streak since its last success, when it was last seen and last verified, and its clock drift (tsMs minus server time, averaged over roughly the last BEACON_DRIFT_WINDOW verified proofs; positive when the beacon's clock is ahead). alerts lists the open ones: clock_drift beyond BEACON_DRIFT_ALERT_MS, silent when an active beacon has not verified for BEACON_SILENT_ALERT_MS, bad_signatures on BEACON_BADSIG_ALERT_COUNT bad signatures or revoked-key proofs (over distinct nonces) within BEACON_BADSIG_ALERT_WINDOW_MS. Alerts are also published as beacon.alert events. Admin token, or an X-Api-Key for the tenant's own beacons.",
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    params: beaconIdParams,
+    response: {
+      200: {
         type: "object",
         properties: {
-          ok: { type: "boolean", const: false, example: false },
-          error: { type: "string", example: "unknown_beacon" }
+          beaconIdHex: beaconIdSchema,
+          okCount: { type: "integer" },
+          failCount: { type: "integer" },
+          failureStreak: { type: "integer", description: "Failed proofs since the last verified one" },
+          lastSeenAtMs: { type: ["integer", "null"] },
+          lastOkAtMs: { type: ["integer", "null"] },
+          lastFailureAtMs: { type: ["integer", "null"] },
+          lastError: { type: ["string", "null"], example: "bad_signature" },
+          clockDriftMs: { type: ["integer", "null"], example: -240 },
+          driftSamples: { type: "integer" },
+          alerts: { type: "array", items: beaconAlertSchema }
         },
-        required: ["ok", "error"],
-        example: { ok: false, error: "unknown_beacon" }
+        required: [
+          "beaconIdHex", "okCount", "failCount", "failureStreak", "lastSeenAtMs", "lastOkAtMs", "lastFailureAtMs",
+          "lastError", "clockDriftMs", "driftSamples", "alerts"
+        ]
+      },
+      401: tenantErrorSchema,
+      403: tenantErrorSchema,
+      404: {
+        type: "object",
+        properties: { ok: { type: "boolean", const: false }, error: { type: "string", example: "unknown_beacon" } },
+        required: ["ok", "error"]
       }
     }
   }
 }, async (req, res) => {
-  const body = z.object({
-    beaconIdHex: z.string().regex(/^[0-9a-f]{16}$/i, "beaconId must be 8 bytes hex"),
-    nonceHex:    z.string().regex(/^[0-9a-f]{32}$/i,   "nonce must be 16 bytes hex"),
-    tsMs:        z.string().regex(/^[0-9]+$/,          "tsMs must be a decimal string"),
-    sigHex:      z.string().regex(/^[0-9a-f]{128}$/i,  "signature must be 64 bytes hex")
-  }).parse(req.body);
+  const { beaconIdHex } = req.params as { beaconIdHex: string };
+  if (req.tenant && !ownsBeacon(req.tenant, beaconIdHex)) return res.code(403).send({ ok: false, error: "beacon_not_owned" });
+  if (!getBeacon(beaconIdHex)) return res.code(404).send({ ok: false, error: "unknown_beacon" });
+  return res.send(getBeaconHealth(beaconIdHex));
+});
+
+// GET /api/admin/alerts -> { alerts }
+app.get("/api/admin/alerts", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Beacon health alerts, newest first: every one, or only those still open (state=open). See GET /api/beacons/{beaconIdHex}/health.",
+    security: [{ bearerAuth: [] }],
+    querystring: {
+      type: "object",
+      properties: {
+        beaconIdHex: beaconIdSchema,
+        state: { type: "string", enum: ["open", "all"], default: "all" },
+        limit: { type: "string", pattern: "^[0-9]{1,4}$", example: "100" }
+      },
+      additionalProperties: false
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: { alerts: { type: "array", items: beaconAlertSchema } },
+        required: ["alerts"]
+      }
+    }
+  }
+}, async (req, res) => {
+  const q = req.query as { beaconIdHex?: string; state?: "open" | "all"; limit?: string };
+  const alerts = listAlerts({ beaconIdHex: q.beaconIdHex, open: q.state === "open", limit: Number(q.limit ?? 100) });
+  return res.send({ alerts });
+});
+
+// GET /api/admin/beacons -> { beacons }
+app.get("/api/admin/beacons", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "List every registered beacon with its metadata and all of its keys.",
+    security: [{ bearerAuth: [] }],
+    response: {
+      200: {
+        type: "object",
+        properties: { beacons: { type: "array", items: beaconSchema } },
+        required: ["beacons"]
+      }
+    }
+  }
+}, async (_req, res) => {
+  return res.send({ beacons: listBeacons().map(adminBeaconView) });
+});
+
+// POST /api/admin/beacons -> 201 { ok }
+app.post("/api/admin/beacons", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Register a new beacon. 409 beacon_exists if the id is taken. Keys are Ed25519 unless alg is p256, in which case they must be P-256 points. Persisted to beacons.json.",
+    security: [{ bearerAuth: [] }],
+    body: {
+      type: "object",
+      properties: { beaconIdHex: beaconIdSchema, ...beaconBodyProps },
+      required: ["beaconIdHex"],
+      oneOf: [{ required: ["publicKeyHex"] }, { required: ["keys"] }],
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const { beaconIdHex, ...body } = req.body as BeaconBody & { beaconIdHex: string };
+  if (getBeacon(beaconIdHex)) {
+    return res.code(409).send({ ok: false, error: "beacon_exists" });
+  }
+  const err = tryPutBeacon(beaconFromBody(beaconIdHex, body));
+  if (err) return res.code(400).send({ ok: false, error: "invalid_beacon", message: err });
+  return res.code(201).send({ ok: true });
+});
+
+// PUT /api/admin/beacons/:beaconIdHex -> { ok }
+app.put("/api/admin/beacons/:beaconIdHex", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Update an existing beacon: given fields replace the stored ones (keys replaces the whole key list). 404 unknown_beacon otherwise.",
+    security: [{ bearerAuth: [] }],
+    params: beaconIdParams,
+    body: {
+      type: "object",
+      properties: beaconBodyProps,
+      not: { required: ["publicKeyHex", "keys"] },
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const { beaconIdHex } = req.params as { beaconIdHex: string };
+  const prev = getBeacon(beaconIdHex);
+  if (!prev) {
+    return res.code(404).send({ ok: false, error: "unknown_beacon" });
+  }
+  const err = tryPutBeacon(beaconFromBody(beaconIdHex, req.body as BeaconBody, prev));
+  if (err) return res.code(400).send({ ok: false, error: "invalid_beacon", message: err });
+  return res.send({ ok: true });
+});
 
-  const pubHex = getPublicKeyHex(body.beaconIdHex);
-  if (!pubHex) {
-    return res.code(400).send({ ok: false, error: "unknown_beacon" });
+// POST /api/admin/beacons/:beaconIdHex/keys -> 201 { ok }
+app.post("/api/admin/beacons/:beaconIdHex/keys", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Add a key to a beacon, e.g. the next key of a rotation with its notBefore.",
+    security: [{ bearerAuth: [] }],
+    params: beaconIdParams,
+    body: beaconKeySchema
+  }
+}, async (req, res) => {
+  const { beaconIdHex } = req.params as { beaconIdHex: string };
+  const rec = getBeacon(beaconIdHex);
+  if (!rec) return res.code(404).send({ ok: false, error: "unknown_beacon" });
+  const key = keyFromJson(req.body as BeaconKeyJson);
+  if (rec.keys.some(k => k.publicKeyHex === key.publicKeyHex)) {
+    return res.code(409).send({ ok: false, error: "key_exists" });
   }
+  const err = tryPutBeacon({ ...rec, keys: [...rec.keys, key] });
+  if (err) return res.code(400).send({ ok: false, error: "invalid_beacon", message: err });
+  return res.code(201).send({ ok: true });
+});
 
-  const msg = buildMessage(body.nonceHex, body.tsMs);
-  const sig = hexToBytes(body.sigHex);
-  const pub = hexToBytes(pubHex);
+// POST /api/admin/beacons/:beaconIdHex/keys/:publicKeyHex/revoke -> { ok }
+app.post("/api/admin/beacons/:beaconIdHex/keys/:publicKeyHex/revoke", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Revoke one key of a beacon. Proofs signed with it fail with key_revoked from now on.",
+    security: [{ bearerAuth: [] }],
+    params: {
+      type: "object",
+      properties: { beaconIdHex: beaconIdSchema, publicKeyHex: beaconKeySchema.properties.publicKeyHex },
+      required: ["beaconIdHex", "publicKeyHex"]
+    }
+  }
+}, async (req, res) => {
+  const { beaconIdHex, publicKeyHex } = req.params as { beaconIdHex: string; publicKeyHex: string };
+  const rec = getBeacon(beaconIdHex);
+  if (!rec) return res.code(404).send({ ok: false, error: "unknown_beacon" });
+  const pk = publicKeyHex.toLowerCase();
+  if (!rec.keys.some(k => k.publicKeyHex === pk)) {
+    return res.code(404).send({ ok: false, error: "unknown_key" });
+  }
+  putBeacon({ ...rec, keys: rec.keys.map(k => (k.publicKeyHex === pk ? { ...k, revoked: true } : k)) });
+  return res.send({ ok: true });
+});
 
-  const valid = nacl.sign.detached.verify(msg, sig, pub);
-  return res.send({ ok: !!valid });
+// DELETE /api/admin/beacons/:beaconIdHex -> { ok }
+app.delete("/api/admin/beacons/:beaconIdHex", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Remove a beacon from the registry. 404 unknown_beacon if it does not exist.",
+    security: [{ bearerAuth: [] }],
+    params: beaconIdParams
+  }
+}, async (req, res) => {
+  const { beaconIdHex } = req.params as { beaconIdHex: string };
+  if (!deleteBeacon(beaconIdHex)) {
+    return res.code(404).send({ ok: false, error: "unknown_beacon" });
+  }
+  return res.send({ ok: true });
 });
 
+// ====== Presence sessions (attendance) ======
 
+// GET /api/sessions -> { lapseMs, beacons: [{ beaconIdHex, sessions, openSessions, totalMs }], sessions }
+app.get("/api/sessions", {
+  preHandler: adminOrTenantAuth,
+  schema: {
+    tags: ["sessions"],
+    description: "Attendance from stay-checked-in presence sessions: per beacon, how many sessions overlap [from, to] and their proven duration clipped to that range (totalMs), plus the sessions themselves, newest first. A session runs from its first to its last heartbeat; open ones count up to their latest heartbeat. With the admin token every session is visible (filter with tenantId); with an X-Api-Key only the tenant's own.",
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    querystring: {
+      type: "object",
+      properties: {
+        beaconIdHex: { type: "string", pattern: "^[0-9a-fA-F]{16}$" },
+        tenantId: { type: "string" },
+        from: { type: "string", description: "epoch ms or ISO-8601", example: "2026-10-13T00:00:00Z" },
+        to: { type: "string", example: "2026-10-14T00:00:00Z" },
+        limit: { type: "string", pattern: "^[0-9]{1,4}$", example: "100" }
+      },
+      additionalProperties: false
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          lapseMs: { type: "integer", description: "PRESENCE_LAPSE_MS", example: 90000 },
+          beacons: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                beaconIdHex: { type: "string" },
+                sessions: { type: "integer" },
+                openSessions: { type: "integer" },
+                totalMs: { type: "integer" }
+              },
+              required: ["beaconIdHex", "sessions", "openSessions", "totalMs"]
+            }
+          },
+          sessions: { type: "array", items: presenceSessionSchema }
+        },
+        required: ["lapseMs", "beacons", "sessions"]
+      }
+    }
+  }
+}, async (req, res) => {
+  const q = req.query as { beaconIdHex?: string; tenantId?: string; from?: string; to?: string; limit?: string };
+  const range = timeRange.parse({ from: q.from, to: q.to });
+  const filter = {
+    beaconIdHex: q.beaconIdHex,
+    tenantId: req.tenant ? req.tenant.tenantId : q.tenantId,
+    fromMs: range.from,
+    toMs: range.to,
+  };
+  return res.send({
+    lapseMs: config.presenceLapseMs,
+    beacons: presenceTotals(filter),
+    sessions: listSessions(filter, Math.min(Math.max(Number(q.limit ?? 100), 1), 1000)),
+  });
+});
+
+// ====== Zones (K-of-N beacon quorum) ======
+
+const zoneIdSchema = { type: "string", pattern: "^[a-z0-9][a-z0-9-]{1,62}$", example: "room-204" } as const;
+const zoneIdParams = {
+  type: "object",
+  properties: { zoneId: zoneIdSchema },
+  required: ["zoneId"]
+} as const;
+const zoneBodyProps = {
+  name: { type: "string", minLength: 1, maxLength: 120, example: "Room 204" },
+  beacons: { type: "array", items: beaconIdSchema, minItems: 1, description: "The zone's N beacons" },
+  threshold: { type: "integer", minimum: 1, description: "K: how many of the beacons must prove presence", example: 2 },
+  windowMs: {
+    type: "integer",
+    minimum: 1,
+    description: `Longest spread between the beacons' signed timestamps (default ${DEFAULT_ZONE_WINDOW_MS})`,
+    example: DEFAULT_ZONE_WINDOW_MS
+  }
+} as const;
+type ZoneBody = { name?: string; beacons?: string[]; threshold?: number; windowMs?: number };
+const zoneSchema = {
+  type: "object",
+  properties: { zoneId: zoneIdSchema, ...zoneBodyProps, createdAtMs: { type: "integer" } },
+  required: ["zoneId", "name", "beacons", "threshold", "windowMs"]
+} as const;
+
+const unknownZoneSchema = {
+  type: "object",
+  properties: { ok: { type: "boolean", const: false }, error: { type: "string", example: "unknown_zone" } },
+  required: ["ok", "error"]
+} as const;
+const zoneVerifyProps = {
+  ok: { type: "boolean" },
+  error: { type: "string", enum: ["quorum_not_met", "bad_request"], example: "quorum_not_met" },
+  zoneId: zoneIdSchema,
+  present: { type: "boolean" },
+  threshold: { type: "integer" },
+  beacons: {
+    type: "array",
+    items: { type: "string" },
+    description: "Verified beacons within one window (the quorum, when present)"
+  },
+  attestation: {
+    type: "string",
+    description: "EdDSA JWT with sub zone:<zoneId>, the session and the quorum's beacons"
+  },
+  results: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        beaconIdHex: { type: "string" },
+        ok: { type: "boolean" },
+        error: { type: "string", enum: [...VERIFY_ERRORS, ...ZONE_PROOF_ERRORS] }
+      },
+      required: ["beaconIdHex", "ok"]
+    }
+  }
+} as const;
+
+// GET /api/zones/:zoneId -> { zoneId, name, beacons, threshold, windowMs }
+app.get("/api/zones/:zoneId", {
+  schema: {
+    tags: ["zones"],
+    description: "Public definition of a zone, so a client knows which beacons to collect proofs from and how many it needs.",
+    params: zoneIdParams,
+    response: { 200: zoneSchema, 404: unknownZoneSchema }
+  }
+}, async (req, res) => {
+  const { zoneId } = req.params as { zoneId: string };
+  const zone = getZone(zoneId);
+  if (!zone) return res.code(404).send({ ok: false, error: "unknown_zone" });
+  return res.send(zone);
+});
+
+// POST /api/zones/:zoneId/verify -> { ok, present, beacons, attestation, results }
+app.post("/api/zones/:zoneId/verify", {
+  preHandler: [tenantAuth, rateLimit("verify")],
+  schema: {
+    tags: ["zones", "verify"],
+    description: "Check in to a zone with proofs from several of its beacons, collected in one session: the client picks a random 32-byte sessionHex, requests each nonce with GET /api/nonce?beaconIdHex=..&sessionHex=.., has each beacon sign, and submits everything here. Every proof goes through the /api/verify checks (same error codes; nonce_session_mismatch when its nonce was not issued for this session). Proofs for other beacons (beacon_not_in_zone), a second proof for the same beacon (duplicate_beacon) or a v2 proof signed over a different session (session_mismatch) are rejected without using their nonce. Presence needs verified proofs from at least `threshold` beacons whose signed timestamps lie within the zone's windowMs; then a zone attestation is returned, otherwise 400 quorum_not_met. Nonces of verified proofs are used up either way.",
+    params: zoneIdParams,
+    body: {
+      type: "object",
+      properties: {
+        sessionHex: { type: "string", pattern: "^[0-9a-fA-F]{64}$", example: "22".repeat(32) },
+        proofs: { type: "array", items: proofSchema, minItems: 1, maxItems: 64 }
+      },
+      required: ["sessionHex", "proofs"],
+      additionalProperties: false
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: zoneVerifyProps,
+        required: ["ok", "zoneId", "present", "threshold", "beacons", "results", "attestation"]
+      },
+      // quorum_not_met carries the per-proof results; bad_request its details
+      400: {
+        type: "object",
+        properties: {
+          ...zoneVerifyProps,
+          details: { type: "array", items: { type: "object", properties: { path: { type: "string" }, message: { type: "string" } } } }
+        },
+        required: ["ok", "error"]
+      },
+      401: tenantErrorSchema,
+      403: tenantErrorSchema,
+      404: unknownZoneSchema,
+      429: rateLimitedSchema
+    },
+    security: tenantSecurity
+  },
+  onError: async (req, _res, err) => {
+    const proofs = (req.body as { proofs?: unknown } | undefined)?.proofs;
+    const items = Array.isArray(proofs) ? proofs.slice(0, 64) : [{}];
+    const { zoneId } = req.params as { zoneId: string };
+    recordVerifications(items.map(b => ({ ...unverifiedRecord((b ?? {}) as Record<string, unknown>, err, req), zoneId })));
+  }
+}, async (req, res) => {
+  const { zoneId } = req.params as { zoneId: string };
+  const zone = getZone(zoneId);
+  if (!zone) return res.code(404).send({ ok: false, error: "unknown_zone" });
+  const body = z.object({
+    sessionHex: z.string().regex(/^[0-9a-f]{64}$/i, "session must be 32 bytes hex"),
+    proofs: z.array(proofBody).min(1).max(64),
+  }).parse(req.body);
+  const session = body.sessionHex.toLowerCase();
+
+  const seen = new Set<string>();
+  // Turned away before verification; their nonces stay unused
+  const rejected = body.proofs.map((p): ZoneProofErrorCode | null => {
+    const id = p.beaconIdHex.toLowerCase();
+    if (!zone.beacons.includes(id)) return "beacon_not_in_zone";
+    if (seen.has(id)) return "duplicate_beacon";
+    seen.add(id);
+    if (p.sessionHex && p.sessionHex.toLowerCase() !== session) return "session_mismatch";
+    return null;
+  });
+  const toVerify = body.proofs.filter((_, i) => !rejected[i]);
+  const nowMs = Date.now();
+  const verified = await verifyProofs(toVerify, nowMs, req.tenant, session);
+  let next = 0;
+  const results = rejected.map(error => (error ? { ok: false as const, error } : verified[next++]));
+
+  const quorum = bestQuorum(zone, results.flatMap((r, i) =>
+    r.ok ? [{ beaconIdHex: body.proofs[i].beaconIdHex, tsMs: Number(body.proofs[i].tsMs) }] : []
+  ));
+  const present = quorum.length >= zone.threshold;
+  const okCount = results.filter(r => r.ok).length;
+  if (req.tenant) {
+    recordUsage(req.tenant.tenantId, "verify", results.length);
+    if (okCount) recordUsage(req.tenant.tenantId, "verify_ok", okCount);
+    recordUsage(req.tenant.tenantId, "zone_verify");
+    if (present) recordUsage(req.tenant.tenantId, "zone_present");
+  }
+  const errorOf = (r: (typeof results)[number]): VerifyError | ZoneProofErrorCode | null => (r.ok ? null : r.error);
+  const ids = recordVerifications(results.map((r, i) => ({
+    serverTimeMs: nowMs,
+    ...body.proofs[i],
+    msgVersion: body.proofs[i].msgVersion ?? 1,
+    zoneSessionHex: session,
+    result: r.ok ? "ok" : "fail",
+    error: errorOf(r),
+    clientIp: req.ip,
+    tenantId: req.tenant?.tenantId ?? null,
+    zoneId,
+    nonceSource: "nonce" in r ? r.nonce?.source ?? null : null,
+    nonceReceipt: "nonce" in r ? r.nonce?.receipt ?? null : null,
+  })));
+  results.forEach((r, i) => r.ok && appendLeaf(r.attestation, ids[i], nowMs));
+  results.forEach((r, i) => publishVerification({
+    verificationId: ids[i],
+    beaconIdHex: body.proofs[i].beaconIdHex.toLowerCase(),
+    nonceHex: body.proofs[i].nonceHex.toLowerCase(),
+    tsMs: body.proofs[i].tsMs,
+    result: r.ok ? "ok" : "fail",
+    error: errorOf(r),
+    tenantId: req.tenant?.tenantId ?? null,
+    attestation: r.ok ? r.attestation : undefined,
+  }));
+
+  const reply = {
+    zoneId,
+    present,
+    threshold: zone.threshold,
+    beacons: quorum,
+    results: results.map((r, i) => ({
+      beaconIdHex: body.proofs[i].beaconIdHex.toLowerCase(),
+      ok: r.ok,
+      ...(!r.ok && { error: r.error }),
+    })),
+  };
+  if (!present) return res.code(400).send({ ok: false, error: "quorum_not_met", ...reply } satisfies ZoneVerifyResponse);
+  const attestation = signZoneAttestation({ zoneId, sessionHex: session, beacons: quorum, verifiedAtMs: nowMs });
+  appendLeaf(attestation, null, nowMs);
+  return res.send({ ok: true, ...reply, attestation } satisfies ZoneVerifyResponse);
+});
+
+// GET /api/admin/zones -> { zones }
+app.get("/api/admin/zones", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Every zone with its beacons, threshold and window.",
+    security: [{ bearerAuth: [] }],
+    response: {
+      200: { type: "object", properties: { zones: { type: "array", items: zoneSchema } }, required: ["zones"] }
+    }
+  }
+}, async (_req, res) => {
+  return res.send({ zones: listZones() });
+});
+
+// POST /api/admin/zones -> 201 { ok }
+app.post("/api/admin/zones", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Create a zone of N beacons where presence needs K (threshold) of them. 409 zone_exists if the id is taken; 400 invalid_zone when the threshold exceeds the number of beacons or a beacon is listed twice.",
+    security: [{ bearerAuth: [] }],
+    body: {
+      type: "object",
+      properties: { zoneId: zoneIdSchema, ...zoneBodyProps },
+      required: ["zoneId", "name", "beacons", "threshold"],
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const { zoneId, name, beacons, threshold, windowMs = DEFAULT_ZONE_WINDOW_MS } =
+    req.body as Required<Omit<ZoneBody, "windowMs">> & { zoneId: string; windowMs?: number };
+  if (getZone(zoneId)) return res.code(409).send({ ok: false, error: "zone_exists" });
+  const zone: Zone = { zoneId, name, beacons, threshold, windowMs, createdAtMs: Date.now() };
+  const err = validateZone(zone);
+  if (err) return res.code(400).send({ ok: false, error: "invalid_zone", message: err });
+  putZone(zone);
+  return res.code(201).send({ ok: true });
+});
+
+// PUT /api/admin/zones/:zoneId -> { ok }
+app.put("/api/admin/zones/:zoneId", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Update a zone; omitted fields are kept and the beacon list replaces the previous one.",
+    security: [{ bearerAuth: [] }],
+    params: zoneIdParams,
+    body: { type: "object", properties: zoneBodyProps, additionalProperties: false }
+  }
+}, async (req, res) => {
+  const { zoneId } = req.params as { zoneId: string };
+  const prev = getZone(zoneId);
+  if (!prev) return res.code(404).send({ ok: false, error: "unknown_zone" });
+  const zone = { ...prev, ...(req.body as ZoneBody) };
+  const err = validateZone(zone);
+  if (err) return res.code(400).send({ ok: false, error: "invalid_zone", message: err });
+  putZone(zone);
+  return res.send({ ok: true });
+});
+
+// DELETE /api/admin/zones/:zoneId -> { ok }
+app.delete("/api/admin/zones/:zoneId", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Delete a zone. Its beacons stay registered.",
+    security: [{ bearerAuth: [] }],
+    params: zoneIdParams
+  }
+}, async (req, res) => {
+  const { zoneId } = req.params as { zoneId: string };
+  if (!deleteZone(zoneId)) return res.code(404).send({ ok: false, error: "unknown_zone" });
+  return res.send({ ok: true });
+});
+
+// ====== Tenants (relying parties) ======
+
+const tenantIdSchema = { type: "string", pattern: "^[a-z0-9][a-z0-9-]{1,62}$", example: "attendance-app" } as const;
+const tenantIdParams = {
+  type: "object",
+  properties: { tenantId: tenantIdSchema },
+  required: ["tenantId"]
+} as const;
+const tenantBodyProps = {
+  name: { type: "string", minLength: 1, maxLength: 120, example: "Attendance app" },
+  origins: {
+    type: "array",
+    items: { type: "string", pattern: "^https?://[^/]+$" },
+    description: "Browser origins this tenant may call from; empty allows any CORS-allowed origin",
+    example: ["https://attendance.example.edu"]
+  },
+  beacons: { type: "array", items: beaconIdSchema, description: "Beacons this tenant may issue nonces for and verify" }
+} as const;
+type TenantBody = { name?: string; origins?: string[]; beacons?: string[] };
+
+// GET /api/admin/tenants -> { tenants }
+app.get("/api/admin/tenants", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Every tenant with its origins, owned beacons and API keys (ids and status only; secrets are never stored).",
+    security: [{ bearerAuth: [] }]
+  }
+}, async () => ({
+  tenants: listTenants().map(t => ({ ...t, keys: listApiKeys(t.tenantId) })),
+}));
+
+// POST /api/admin/tenants -> 201 { ok }
+app.post("/api/admin/tenants", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Create a tenant. 409 tenant_exists if the id is taken. Create API keys for it separately.",
+    security: [{ bearerAuth: [] }],
+    body: {
+      type: "object",
+      properties: { tenantId: tenantIdSchema, ...tenantBodyProps },
+      required: ["tenantId", "name"],
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const { tenantId, name, origins = [], beacons = [] } = req.body as TenantBody & { tenantId: string; name: string };
+  if (getTenant(tenantId)) {
+    return res.code(409).send({ ok: false, error: "tenant_exists" });
+  }
+  putTenant({ tenantId, name, origins, beacons, createdAtMs: Date.now() });
+  return res.code(201).send({ ok: true });
+});
+
+// PUT /api/admin/tenants/:tenantId -> { ok }
+app.put("/api/admin/tenants/:tenantId", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Update a tenant's name, origins or owned beacons; omitted fields are kept. Lists replace the previous ones.",
+    security: [{ bearerAuth: [] }],
+    params: tenantIdParams,
+    body: { type: "object", properties: tenantBodyProps, additionalProperties: false }
+  }
+}, async (req, res) => {
+  const { tenantId } = req.params as { tenantId: string };
+  const prev = getTenant(tenantId);
+  if (!prev) return res.code(404).send({ ok: false, error: "unknown_tenant" });
+  putTenant({ ...prev, ...(req.body as TenantBody) });
+  return res.send({ ok: true });
+});
+
+// POST /api/admin/tenants/:tenantId/keys -> 201 { keyId, apiKey }
+app.post("/api/admin/tenants/:tenantId/keys", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Issue an API key for the tenant. The full key (X-Api-Key) is returned only in this response; only its hash is stored.",
+    security: [{ bearerAuth: [] }],
+    params: tenantIdParams,
+    body: {
+      type: "object",
+      properties: { label: { type: "string", maxLength: 120, example: "production" } },
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const { tenantId } = req.params as { tenantId: string };
+  if (!getTenant(tenantId)) return res.code(404).send({ ok: false, error: "unknown_tenant" });
+  const { label } = (req.body ?? {}) as { label?: string };
+  const { info, apiKey } = createApiKey(tenantId, label);
+  return res.code(201).send({ ...info, apiKey });
+});
+
+// GET /api/admin/tenants/:tenantId/keys -> { keys }
+app.get("/api/admin/tenants/:tenantId/keys", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "The tenant's API keys: id, label, creation, last use and revocation times.",
+    security: [{ bearerAuth: [] }],
+    params: tenantIdParams
+  }
+}, async (req, res) => {
+  const { tenantId } = req.params as { tenantId: string };
+  if (!getTenant(tenantId)) return res.code(404).send({ ok: false, error: "unknown_tenant" });
+  return res.send({ keys: listApiKeys(tenantId) });
+});
+
+// POST /api/admin/tenants/:tenantId/keys/:keyId/revoke -> { ok }
+app.post("/api/admin/tenants/:tenantId/keys/:keyId/revoke", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Revoke an API key. Calls using it fail with 401 api_key_revoked from now on.",
+    security: [{ bearerAuth: [] }],
+    params: {
+      type: "object",
+      properties: { tenantId: tenantIdSchema, keyId: { type: "string", pattern: "^[0-9a-f]{12}$" } },
+      required: ["tenantId", "keyId"]
+    }
+  }
+}, async (req, res) => {
+  const { tenantId, keyId } = req.params as { tenantId: string; keyId: string };
+  if (!revokeApiKey(tenantId, keyId)) return res.code(404).send({ ok: false, error: "unknown_key" });
+  return res.send({ ok: true });
+});
+
+// GET /api/admin/tenants/:tenantId/usage -> { usage: [{ day, metric, count }] }
+app.get("/api/admin/tenants/:tenantId/usage", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["admin"],
+    description: "Daily usage counters of a tenant (UTC days, inclusive range): nonce, verify (proofs submitted) and verify_ok.",
+    security: [{ bearerAuth: [] }],
+    params: tenantIdParams,
+    querystring: {
+      type: "object",
+      properties: {
+        from: { type: "string", format: "date", example: "2026-10-01" },
+        to: { type: "string", format: "date", example: "2026-10-31" }
+      },
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const { tenantId } = req.params as { tenantId: string };
+  if (!getTenant(tenantId)) return res.code(404).send({ ok: false, error: "unknown_tenant" });
+  const { from, to } = req.query as { from?: string; to?: string };
+  return res.send({ usage: getUsage(tenantId, from, to) });
+});
+
+// ====== Webhooks ======
+
+const webhookIdParams = {
+  type: "object",
+  properties: { webhookId: { type: "string", pattern: "^[0-9]+$" } },
+  required: ["webhookId"]
+} as const;
+const webhookBodyProps = {
+  url: { type: "string", pattern: "^https?://", example: "https://doors.example.edu/hooks/presence" },
+  beacons: {
+    type: ["array", "null"],
+    items: beaconIdSchema,
+    description: "Only events for these beacons; null or omitted for every beacon"
+  },
+  result: {
+    type: ["string", "null"],
+    enum: ["ok", "fail", null],
+    description: "Only successful (ok) or failed (fail) verifications; null or omitted for both"
+  }
+} as const;
+type WebhookBody = { url?: string; beacons?: string[] | null; result?: "ok" | "fail" | null; active?: boolean };
+const deliveryStatusQuery = {
+  type: "object",
+  properties: {
+    status: { type: "string", enum: ["pending", "delivered", "dead"] },
+    limit: { type: "string", pattern: "^[0-9]{1,4}$", example: "100" }
+  },
+  additionalProperties: false
+} as const;
+
+// GET /api/admin/webhooks -> { webhooks }
+app.get("/api/admin/webhooks", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["webhooks"],
+    description: "Webhook subscriptions and their filters. Signing secrets are only shown at creation.",
+    security: [{ bearerAuth: [] }]
+  }
+}, async () => ({ webhooks: listWebhooks() }));
+
+// POST /api/admin/webhooks -> 201 { webhook, secret }
+app.post("/api/admin/webhooks", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["webhooks"],
+    description: "Subscribe a URL to verification events (verification.succeeded / verification.failed), optionally filtered by beacon and result. Each POST is signed: X-Spacescrypt-Signature: t=<unix s>,v1=<hex HMAC-SHA256(secret, \"<t>.<raw body>\")>. Non-2xx answers are retried with exponential backoff (WEBHOOK_BACKOFF_MS, doubling) up to WEBHOOK_MAX_ATTEMPTS, then dead-lettered.",
+    security: [{ bearerAuth: [] }],
+    body: {
+      type: "object",
+      properties: webhookBodyProps,
+      required: ["url"],
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const body = req.body as WebhookBody & { url: string };
+  return res.code(201).send(createWebhook(body));
+});
+
+// PUT /api/admin/webhooks/:webhookId -> { ok }
+app.put("/api/admin/webhooks/:webhookId", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["webhooks"],
+    description: "Change a subscription's URL or filters, or pause it with active=false. Omitted fields are kept.",
+    security: [{ bearerAuth: [] }],
+    params: webhookIdParams,
+    body: {
+      type: "object",
+      properties: { ...webhookBodyProps, active: { type: "boolean" } },
+      additionalProperties: false
+    }
+  }
+}, async (req, res) => {
+  const { webhookId } = req.params as { webhookId: string };
+  if (!updateWebhook(Number(webhookId), req.body as WebhookBody)) {
+    return res.code(404).send({ ok: false, error: "unknown_webhook" });
+  }
+  return res.send({ ok: true });
+});
+
+// DELETE /api/admin/webhooks/:webhookId -> { ok }
+app.delete("/api/admin/webhooks/:webhookId", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["webhooks"],
+    description: "Remove a subscription together with its delivery log.",
+    security: [{ bearerAuth: [] }],
+    params: webhookIdParams
+  }
+}, async (req, res) => {
+  const { webhookId } = req.params as { webhookId: string };
+  if (!deleteWebhook(Number(webhookId))) {
+    return res.code(404).send({ ok: false, error: "unknown_webhook" });
+  }
+  return res.send({ ok: true });
+});
+
+// GET /api/admin/webhooks/:webhookId/deliveries -> { deliveries }
+app.get("/api/admin/webhooks/:webhookId/deliveries", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["webhooks"],
+    description: "Delivery log of one subscription, newest first, optionally filtered by status.",
+    security: [{ bearerAuth: [] }],
+    params: webhookIdParams,
+    querystring: deliveryStatusQuery
+  }
+}, async (req, res) => {
+  const webhookId = Number((req.params as { webhookId: string }).webhookId);
+  if (!getWebhook(webhookId)) return res.code(404).send({ ok: false, error: "unknown_webhook" });
+  const { status, limit } = req.query as { status?: DeliveryStatus; limit?: string };
+  return res.send({ deliveries: listDeliveries({ webhookId, status, limit: limit ? Number(limit) : undefined }) });
+});
+
+// GET /api/admin/webhooks/dead-letter -> { deliveries }
+app.get("/api/admin/webhooks/dead-letter", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["webhooks"],
+    description: "Deliveries that used up every retry, across all subscriptions, newest first. Redeliver them once the receiver is fixed.",
+    security: [{ bearerAuth: [] }]
+  }
+}, async () => ({ deliveries: listDeliveries({ status: "dead" }) }));
+
+// GET /api/admin/webhooks/deliveries/:deliveryId/attempts -> { attempts }
+app.get("/api/admin/webhooks/deliveries/:deliveryId/attempts", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["webhooks"],
+    description: "Every HTTP attempt of one delivery: time, status code or error, and duration.",
+    security: [{ bearerAuth: [] }],
+    params: {
+      type: "object",
+      properties: { deliveryId: { type: "string", pattern: "^[0-9]+$" } },
+      required: ["deliveryId"]
+    }
+  }
+}, async (req) => {
+  const { deliveryId } = req.params as { deliveryId: string };
+  return { attempts: listAttempts(Number(deliveryId)) };
+});
+
+// POST /api/admin/webhooks/deliveries/:deliveryId/redeliver -> { ok }
+app.post("/api/admin/webhooks/deliveries/:deliveryId/redeliver", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["webhooks"],
+    description: "Queue a delivery again (same event id and payload, fresh signature) with a full retry budget.",
+    security: [{ bearerAuth: [] }],
+    params: {
+      type: "object",
+      properties: { deliveryId: { type: "string", pattern: "^[0-9]+$" } },
+      required: ["deliveryId"]
+    }
+  }
+}, async (req, res) => {
+  const { deliveryId } = req.params as { deliveryId: string };
+  if (!redeliver(Number(deliveryId))) {
+    return res.code(404).send({ ok: false, error: "unknown_delivery" });
+  }
+  return res.send({ ok: true });
+});
+
+// GET /.well-known/jwks.json -> { keys }
+app.get("/.well-known/jwks.json", {
+  schema: {
+    tags: ["attestations"],
+    description: "Public keys (RFC 8037 OKP/Ed25519) that verify attestation tokens, including recently rotated-out keys.",
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          keys: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                kty: { type: "string", example: "OKP" },
+                crv: { type: "string", example: "Ed25519" },
+                alg: { type: "string", example: "EdDSA" },
+                use: { type: "string", example: "sig" },
+                kid: { type: "string", example: "2026-10" },
+                x: { type: "string", example: "11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo" }
+              },
+              required: ["kty", "crv", "kid", "x"]
+            }
+          }
+        },
+        required: ["keys"]
+      }
+    }
+  }
+}, async (_req, res) => {
+  return res.send(getJwks());
+});
+
+// POST /api/attestations/verify -> { ok, kid, claims }
+app.post("/api/attestations/verify", {
+  schema: {
+    tags: ["attestations"],
+    description: "Introspect an attestation token issued by /api/verify: checks signature, key id and expiry.",
+    body: {
+      type: "object",
+      properties: { token: { type: "string", minLength: 1 } },
+      required: ["token"],
+      additionalProperties: false
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean", example: true },
+          kid: { type: "string", example: "2026-10" },
+          claims: {
+            type: "object",
+            properties: {
+              iss: { type: "string" },
+              sub: { type: "string" },
+              beacon_id: { type: "string", example: "a1b2c3d4e5f60708" },
+              nonce: { type: "string", example: "0123456789abcdef0123456789abcdef" },
+              beacon_ts_ms: { type: "number", example: 1739550123456 },
+              zone_id: { type: "string", example: "room-204" },
+              beacons: { type: "array", items: { type: "string" }, description: "Zone attestations: the beacons that made up the quorum" },
+              verified_at_ms: { type: "number", example: 1739550123789 },
+              msg_v: { type: "number", example: 2 },
+              session: { type: "string", example: "11".repeat(32) },
+              iat: { type: "number" },
+              exp: { type: "number" }
+            }
+          },
+          error: {
+            type: "string",
+            enum: ["malformed_token", "unknown_kid", "bad_signature", "token_expired"],
+            example: "token_expired"
+          }
+        },
+        required: ["ok"]
+      }
+    }
+  }
+}, async (req, res) => {
+  const { token } = req.body as { token: string };
+  return res.send(verifyAttestation(token));
+});
+
+
+// ====== Transparency log ======
+
+const treeHeadSchema = {
+  type: "object",
+  properties: {
+    treeSize: { type: "integer", example: 4096 },
+    rootHash: { type: "string", description: "Merkle tree hash (RFC 9162), hex", example: "5f3c…" },
+    timestampMs: { type: "integer", example: 1760832000000 },
+    signature: { type: "string", description: "Compact EdDSA JWS over the same fields (claims tree_size, root_hash, timestamp_ms, sub \"log:sth\"); keys at /.well-known/jwks.json" }
+  },
+  required: ["treeSize", "rootHash", "timestampMs", "signature"]
+} as const;
+
+const logErrorSchema = {
+  type: "object",
+  properties: {
+    ok: { type: "boolean", example: false },
+    error: { type: "string", enum: ["leaf_not_found", "leaf_not_yet_included", "unknown_tree_size"] }
+  },
+  required: ["ok", "error"]
+} as const;
+
+// GET /api/log/sth -> { treeSize, rootHash, timestampMs, signature }
+app.get("/api/log/sth", {
+  schema: {
+    tags: ["log"],
+    description: `Latest signed tree head of the transparency log. Every attestation token handed out by a successful verification or zone check-in is appended as a leaf, hashed SHA-256(0x00 || token); a new head is signed every LOG_STH_INTERVAL_MS (${config.logSthIntervalMs} ms) when the log grew. Keep the heads you have seen and check later ones against them with /api/log/consistency.`,
+    response: { 200: treeHeadSchema }
+  }
+}, async (_req, res) => {
+  return res.send(latestTreeHead()!);
+});
+
+// GET /api/log/proof/:leaf -> { leafIndex, leafHash, treeSize, auditPath, sth }
+app.get("/api/log/proof/:leaf", {
+  schema: {
+    tags: ["log"],
+    description: "Inclusion proof (RFC 9162 audit path) for a leaf, given by index or by its 64-hex leaf hash, against the published tree head of size treeSize (default the latest). 404 leaf_not_found when no such leaf is logged, leaf_not_yet_included when it was appended after that head (retry after the next one), unknown_tree_size when no head of that size was published.",
+    params: {
+      type: "object",
+      properties: { leaf: { type: "string", pattern: "^([0-9]{1,15}|[0-9a-fA-F]{64})$" } },
+      required: ["leaf"]
+    },
+    querystring: {
+      type: "object",
+      properties: { treeSize: { type: "string", pattern: "^[0-9]{1,15}$" } },
+      additionalProperties: false
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          leafIndex: { type: "integer", example: 4011 },
+          leafHash: { type: "string" },
+          treeSize: { type: "integer", example: 4096 },
+          auditPath: { type: "array", items: { type: "string" } },
+          sth: treeHeadSchema
+        },
+        required: ["leafIndex", "leafHash", "treeSize", "auditPath", "sth"]
+      },
+      404: logErrorSchema
+    }
+  }
+}, async (req, res) => {
+  const { leaf } = req.params as { leaf: string };
+  const { treeSize } = req.query as { treeSize?: string };
+  const r = inclusionProof(leaf.length === 64 ? leaf : Number(leaf), treeSize === undefined ? undefined : Number(treeSize));
+  if (!r.ok) return res.code(404).send(r);
+  return res.send({ ...r.proof, sth: r.sth });
+});
+
+// GET /api/log/consistency?first&second -> { first, second, proof }
+app.get("/api/log/consistency", {
+  schema: {
+    tags: ["log"],
+    description: "Consistency proof (RFC 9162) that the published tree head of size second (default the latest) extends the one of size first, i.e. the log only grew in between. 404 unknown_tree_size when either size has no published head or first > second.",
+    querystring: {
+      type: "object",
+      properties: {
+        first: { type: "string", pattern: "^[0-9]{1,15}$", example: "4096" },
+        second: { type: "string", pattern: "^[0-9]{1,15}$" }
+      },
+      required: ["first"],
+      additionalProperties: false
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          first: treeHeadSchema,
+          second: treeHeadSchema,
+          proof: { type: "array", items: { type: "string" } }
+        },
+        required: ["first", "second", "proof"]
+      },
+      404: logErrorSchema
+    }
+  }
+}, async (req, res) => {
+  const { first, second } = req.query as { first: string; second?: string };
+  const r = consistencyProof(Number(first), second === undefined ? undefined : Number(second));
+  if (!r.ok) return res.code(404).send(r);
+  return res.send({ first: r.first, second: r.second, proof: r.proof });
+});
+
+
+// ====== Proof bundles ======
+
+const proofBundleSchema = {
+  type: "object",
+  description: "Versioned, self-contained record of one verified proof; re-check it offline with `npm run cli -- verify-bundle`",
+  properties: {
+    format: { type: "string", const: "spacescrypt/proof-bundle" },
+    version: { type: "integer", enum: [1] },
+    createdAtMs: { type: "integer" },
+    proof: {
+      type: "object",
+      properties: {
+        beaconIdHex: { type: "string" },
+        nonceHex: { type: "string" },
+        tsMs: { type: "string" },
+        sigHex: { type: "string" },
+        msgVersion: { type: "integer", enum: [...MSG_VERSIONS] },
+        sessionHex: { type: "string" }
+      },
+      required: ["beaconIdHex", "nonceHex", "tsMs", "sigHex", "msgVersion"]
+    },
+    nonce: {
+      type: "object",
+      description: "Randomness provenance of the nonce, as recorded when it was issued",
+      properties: {
+        source: { type: ["string", "null"], example: "orbitport" },
+        receipt: { type: ["object", "null"], additionalProperties: true }
+      },
+      required: ["source", "receipt"]
+    },
+    beaconKey: {
+      type: "object",
+      description: "Snapshot of the registered key the signature verified with",
+      properties: {
+        alg: { type: "string", enum: [...BEACON_ALGS] },
+        publicKeyHex: { type: "string" },
+        notBefore: { type: "string" },
+        notAfter: { type: "string" },
+        revoked: { type: "boolean", description: "Revoked by the time the bundle was made" }
+      },
+      required: ["alg", "publicKeyHex"]
+    },
+    verification: {
+      type: "object",
+      properties: {
+        verificationId: { type: "integer" },
+        result: { type: "string", const: "ok" },
+        verifiedAtMs: { type: "integer" },
+        attestation: { type: ["string", "null"], description: "null for verifications older than the transparency log" }
+      },
+      required: ["verificationId", "result", "verifiedAtMs", "attestation"]
+    },
+    log: {
+      type: "object",
+      description: "Present once the attestation is in a published tree head",
+      properties: {
+        sth: treeHeadSchema,
+        proof: {
+          type: "object",
+          properties: {
+            leafIndex: { type: "integer" },
+            leafHash: { type: "string" },
+            treeSize: { type: "integer" },
+            auditPath: { type: "array", items: { type: "string" } }
+          },
+          required: ["leafIndex", "leafHash", "treeSize", "auditPath"]
+        }
+      },
+      required: ["sth", "proof"]
+    },
+    jwks: {
+      type: "object",
+      description: "Attestation keys at bundle time",
+      properties: {
+        keys: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              kty: { type: "string" }, crv: { type: "string" }, alg: { type: "string" }, use: { type: "string" },
+              kid: { type: "string" }, x: { type: "string" }
+            },
+            required: ["kty", "kid"]
+          }
+        }
+      },
+      required: ["keys"]
+    }
+  },
+  required: ["format", "version", "createdAtMs", "proof", "nonce", "beaconKey", "verification", "jwks"]
+} as const;
+
+const bundleErrorSchema = {
+  type: "object",
+  properties: {
+    ok: { type: "boolean", const: false },
+    error: { type: "string", enum: ["unknown_verification", "not_verified", "unknown_beacon", "key_not_found"] }
+  },
+  required: ["ok", "error"]
+} as const;
+
+// POST /api/bundles -> bundle
+app.post("/api/bundles", {
+  preHandler: [tenantAuth, rateLimit("verify")],
+  schema: {
+    tags: ["verify"],
+    description: "Proof bundle for the verification an attestation token from /api/verify (or a batch) stands for, while the token is unexpired. The log proof is included once the attestation is in a published tree head (LOG_STH_INTERVAL_MS); later, an admin can fetch the complete bundle from GET /api/verifications/{verificationId}/bundle. 400 with the token's error (malformed_token, unknown_kid, bad_signature, token_expired); 404 unknown_verification for zone attestations and tokens the log has not seen, unknown_beacon or key_not_found when the beacon or its key has been deleted since.",
+    body: {
+      type: "object",
+      properties: { attestation: { type: "string", minLength: 1 } },
+      required: ["attestation"],
+      additionalProperties: false
+    },
+    response: {
+      200: proofBundleSchema,
+      400: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean", const: false },
+          error: { type: "string", enum: ["malformed_token", "unknown_kid", "bad_signature", "token_expired", "bad_request"] }
+        },
+        required: ["ok", "error"]
+      },
+      401: tenantErrorSchema,
+      403: tenantErrorSchema,
+      404: bundleErrorSchema,
+      429: rateLimitedSchema
+    },
+    security: tenantSecurity
+  }
+}, async (req, res) => {
+  const { attestation } = req.body as { attestation: string };
+  const checked = verifyAttestation(attestation);
+  if (!checked.ok) return res.code(400).send({ ok: false, error: checked.error });
+  const verificationId = verificationOfLeaf(attestation);
+  if (typeof verificationId !== "number") return res.code(404).send({ ok: false, error: "unknown_verification" });
+  const built = buildProofBundle(verificationId);
+  if (!built.ok) return res.code(404).send({ ok: false, error: built.error });
+  return res.send(built.bundle);
+});
+
+// GET /api/verifications/:verificationId/bundle -> bundle
+app.get("/api/verifications/:verificationId/bundle", {
+  preHandler: requireAdmin,
+  schema: {
+    tags: ["audit"],
+    description: "Proof bundle of any verified proof in the audit log (admin). 404 not_verified for failed ones; unknown_beacon or key_not_found when the beacon or its key has been deleted since.",
+    security: [{ bearerAuth: [] }],
+    params: {
+      type: "object",
+      properties: { verificationId: { type: "string", pattern: "^[0-9]{1,15}$" } },
+      required: ["verificationId"]
+    },
+    response: {
+      200: proofBundleSchema,
+      404: bundleErrorSchema
+    }
+  }
+}, async (req, res) => {
+  const { verificationId } = req.params as { verificationId: string };
+  const built = buildProofBundle(Number(verificationId));
+  if (!built.ok) return res.code(404).send({ ok: false, error: built.error satisfies BundleError });
+  return res.send(built.bundle);
+});
+
+// ====== Health and metrics ======
+
+// GET /healthz -> { ok, uptimeS }
+app.get("/healthz", {
+  schema: {
+    tags: ["ops"],
+    description: "Liveness: answers 200 as long as the process serves requests. Does not look at dependencies; see /readyz.",
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          ok: { type: "boolean", example: true },
+          uptimeS: { type: "integer", example: 3600 }
+        },
+        required: ["ok", "uptimeS"]
+      }
+    }
+  }
+}, async () => ({ ok: true, uptimeS: Math.floor(process.uptime()) }));
+
+// Same shape whether ready (200) or not (503)
+const readinessSchema = {
+  type: "object",
+  properties: {
+    ready: { type: "boolean", example: true },
+    checks: {
+      type: "object",
+      properties: {
+        registry: {
+          type: "object",
+          properties: {
+            ok: { type: "boolean" },
+            file: { type: "string" },
+            loadedAtMs: { type: ["integer", "null"] },
+            lastReloadError: { type: ["string", "null"], description: "Why the last hot reload was rejected; the previous registry stays in effect" },
+            beacons: { type: "integer", example: 12 },
+            activeBeacons: { type: "integer", example: 10 }
+          }
+        },
+        ctrng: {
+          type: "object",
+          properties: {
+            ok: { type: "boolean" },
+            required: { type: "boolean", description: "READY_REQUIRE_CTRNG" },
+            provider: { type: ["string", "null"], description: "Probed provider; null when none is configured", example: "orbitport" },
+            checkedAtMs: { type: "integer" },
+            latencyMs: { type: ["integer", "null"], example: 180 },
+            error: { type: ["string", "null"] }
+          }
+        }
+      }
+    }
+  },
+  required: ["ready", "checks"]
+} as const;
+
+// GET /readyz -> { ready, checks: { registry, ctrng } }
+app.get("/readyz", {
+  schema: {
+    tags: ["ops"],
+    description: "Readiness: 200 when the beacon registry is loaded with at least one active beacon, else 503. Also reports whether the first cTRNG provider in ENTROPY_PROVIDERS answers; the probe result is cached for READY_PROBE_TTL_MS. An unreachable cTRNG only makes the instance unready with READY_REQUIRE_CTRNG, since nonces then fall back to the CSPRNG.",
+    response: {
+      200: readinessSchema,
+      503: readinessSchema
+    }
+  }
+}, async (_req, res) => {
+  const r = await readiness();
+  return res.code(r.ready ? 200 : 503).send(r);
+});
+
+// GET /metrics -> Prometheus text format
+app.get("/metrics", {
+  preHandler: metricsAuth,
+  schema: {
+    tags: ["ops"],
+    description: "Prometheus metrics: nonces issued by entropy source and pool outcome (spacescrypt_nonce_requests_total), nonces served by the CSPRNG after the cTRNG failed (spacescrypt_entropy_csprng_fallbacks_total), verification outcomes by error code (spacescrypt_verify_results_total), verify latency by route (spacescrypt_verify_duration_seconds), beacons by status and entropy pool fill. Needs `Authorization: Bearer $METRICS_TOKEN` when METRICS_TOKEN is set.",
+    security: [{ bearerAuth: [] }, {}]
+  }
+}, async (_req, res) => {
+  return res.type("text/plain; version=0.0.4; charset=utf-8").send(renderMetrics());
+});
 
 const PORT = Number(process.env.PORT || 8787);
 app.listen({ host: "0.0.0.0", port: PORT })
@@ -0,0 +1,207 @@
+// api/src/merkle.ts
+import { createHash, createPublicKey, verify as cryptoVerify } from "node:crypto";
+
+// RFC 9162 (Certificate Transparency v2) Merkle tree: leaf hashes are
+// SHA-256(0x00 || data), interior nodes SHA-256(0x01 || left || right), and a
+// tree of n leaves splits at the largest power of two below n. Nothing here
+// touches the database or server config, so the verifiers below work offline
+// from a saved tree head, a proof and the JWKS.
+
+export function leafHash(data: Uint8Array | string): Buffer {
+  return createHash("sha256").update(Buffer.from([0])).update(data).digest();
+}
+
+function nodeHash(left: Uint8Array, right: Uint8Array): Buffer {
+  return createHash("sha256").update(Buffer.from([1])).update(left).update(right).digest();
+}
+
+const EMPTY_ROOT = createHash("sha256").digest();
+
+// Largest power of two strictly below n (n >= 2)
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+// Append-only tree over leaf hashes. Complete power-of-two subtrees never
+// change once filled, so their hashes are cached and a root or proof costs
+// O(log n) hashes after the first time.
+export class MerkleTree {
+  private readonly leaves: Buffer[] = [];
+  private readonly complete = new Map<string, Buffer>();
+
+  get size() {
+    return this.leaves.length;
+  }
+
+  append(hash: Buffer): number {
+    this.leaves.push(hash);
+    return this.leaves.length - 1;
+  }
+
+  leaf(index: number): Buffer | undefined {
+    return this.leaves[index];
+  }
+
+  root(treeSize = this.size): Buffer {
+    return this.hashRange(0, treeSize);
+  }
+
+  // PATH(m, D[0:n]) from RFC 9162 2.1.3.1
+  inclusionProof(index: number, treeSize: number): Buffer[] {
+    if (index < 0 || index >= treeSize || treeSize > this.size) throw new Error("leaf index outside tree");
+    const path = (m: number, start: number, n: number): Buffer[] => {
+      if (n === 1) return [];
+      const k = splitPoint(n);
+      return m < k
+        ? [...path(m, start, k), this.hashRange(start + k, start + n)]
+        : [...path(m - k, start + k, n - k), this.hashRange(start, start + k)];
+    };
+    return path(index, 0, treeSize);
+  }
+
+  // PROOF(m, D[0:n]) from RFC 9162 2.1.4.1
+  consistencyProof(first: number, second: number): Buffer[] {
+    if (first < 0 || first > second || second > this.size) throw new Error("tree sizes out of order");
+    if (first === 0 || first === second) return [];
+    const sub = (m: number, start: number, n: number, whole: boolean): Buffer[] => {
+      if (m === n) return whole ? [] : [this.hashRange(start, start + n)];
+      const k = splitPoint(n);
+      return m <= k
+        ? [...sub(m, start, k, whole), this.hashRange(start + k, start + n)]
+        : [...sub(m - k, start + k, n - k, false), this.hashRange(start, start + k)];
+    };
+    return sub(first, 0, second, true);
+  }
+
+  private hashRange(start: number, end: number): Buffer {
+    const n = end - start;
+    if (n === 0) return EMPTY_ROOT;
+    if (n === 1) return this.leaves[start];
+    const full = (n & (n - 1)) === 0;
+    const key = `${start}:${n}`;
+    const cached = full ? this.complete.get(key) : undefined;
+    if (cached) return cached;
+    const k = splitPoint(n);
+    const h = nodeHash(this.hashRange(start, start + k), this.hashRange(start + k, end));
+    if (full) this.complete.set(key, h);
+    return h;
+  }
+}
+
+const isOdd = (n: number) => n % 2 === 1;
+const half = (n: number) => Math.floor(n / 2);
+
+// RFC 9162 2.1.3.2
+export function verifyInclusion(leafHashHex: string, index: number, treeSize: number, pathHex: string[], rootHex: string): boolean {
+  if (!Number.isSafeInteger(index) || index < 0 || index >= treeSize) return false;
+  let fn = index;
+  let sn = treeSize - 1;
+  let r: Buffer = Buffer.from(leafHashHex, "hex");
+  for (const p of pathHex.map(h => Buffer.from(h, "hex"))) {
+    if (sn === 0) return false;
+    if (isOdd(fn) || fn === sn) {
+      r = nodeHash(p, r);
+      if (!isOdd(fn)) while (!isOdd(fn) && fn !== 0) { fn = half(fn); sn = half(sn); }
+    } else {
+      r = nodeHash(r, p);
+    }
+    fn = half(fn);
+    sn = half(sn);
+  }
+  return sn === 0 && r.toString("hex") === rootHex.toLowerCase();
+}
+
+// RFC 9162 2.1.4.2: the tree of size `second` extends the one of size `first`
+export function verifyConsistency(first: number, second: number, firstRootHex: string, secondRootHex: string, proofHex: string[]): boolean {
+  if (!Number.isSafeInteger(first) || !Number.isSafeInteger(second) || first < 0 || first > second) return false;
+  if (first === 0) return proofHex.length === 0;
+  if (first === second) return proofHex.length === 0 && firstRootHex.toLowerCase() === secondRootHex.toLowerCase();
+  const path = proofHex.map(h => Buffer.from(h, "hex"));
+  if ((first & (first - 1)) === 0) path.unshift(Buffer.from(firstRootHex, "hex"));
+  if (!path.length) return false;
+  let fn = first - 1;
+  let sn = second - 1;
+  while (isOdd(fn)) { fn = half(fn); sn = half(sn); }
+  let fr: Buffer = path[0];
+  let sr: Buffer = path[0];
+  for (const c of path.slice(1)) {
+    if (sn === 0) return false;
+    if (isOdd(fn) || fn === sn) {
+      fr = nodeHash(c, fr);
+      sr = nodeHash(c, sr);
+      if (!isOdd(fn)) while (!isOdd(fn) && fn !== 0) { fn = half(fn); sn = half(sn); }
+    } else {
+      sr = nodeHash(sr, c);
+    }
+    fn = half(fn);
+    sn = half(sn);
+  }
+  return sn === 0 && fr.toString("hex") === firstRootHex.toLowerCase() && sr.toString("hex") === secondRootHex.toLowerCase();
+}
+
+// As served by GET /api/log/sth. `signature` is a compact EdDSA JWS over the
+// same fields, signed with an attestation key (see /.well-known/jwks.json).
+export type SignedTreeHead = {
+  treeSize: number;
+  rootHash: string;
+  timestampMs: number;
+  signature: string;
+};
+
+export type TreeHeadClaims = {
+  iss: string;
+  sub: "log:sth";
+  tree_size: number;
+  root_hash: string;
+  timestamp_ms: number;
+  iat: number;
+};
+
+export type Jwks = { keys: { kid: string; kty: string; crv?: string; x?: string }[] };
+
+// Claims of a compact EdDSA JWS whose signature checks out against the JWKS,
+// or undefined
+export function verifyJws(token: string, jwks: Jwks): Record<string, unknown> | undefined {
+  const parts = token.split(".");
+  if (parts.length !== 3) return undefined;
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], "base64url").toString("utf8")) as { alg?: string; kid?: string };
+    const jwk = jwks.keys.find(k => k.kid === header.kid);
+    if (header.alg !== "EdDSA" || !jwk || jwk.kty !== "OKP" || jwk.crv !== "Ed25519" || !jwk.x) return undefined;
+    const key = createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: jwk.x }, format: "jwk" });
+    if (!cryptoVerify(null, Buffer.from(`${parts[0]}.${parts[1]}`), key, Buffer.from(parts[2], "base64url"))) return undefined;
+    return JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+// The tree head's signature checks out against the JWKS and covers exactly
+// the size, root and time it states
+export function verifyTreeHead(sth: SignedTreeHead, jwks: Jwks): boolean {
+  const claims = verifyJws(sth.signature, jwks) as Partial<TreeHeadClaims> | undefined;
+  return !!claims
+    && claims.sub === "log:sth"
+    && claims.tree_size === sth.treeSize
+    && claims.root_hash === sth.rootHash.toLowerCase()
+    && claims.timestamp_ms === sth.timestampMs;
+}
+
+export type InclusionProof = { leafIndex: number; leafHash: string; treeSize: number; auditPath: string[] };
+
+// Offline check of a saved GET /api/log/proof/:leaf answer: the tree head is
+// genuine, the proof is for that head, and it leads to its root. Pass the
+// attestation token to also check that it is the logged leaf.
+export function checkInclusion(sth: SignedTreeHead, proof: InclusionProof, jwks: Jwks, attestation?: string): boolean {
+  if (!verifyTreeHead(sth, jwks) || proof.treeSize !== sth.treeSize) return false;
+  if (attestation !== undefined && leafHash(attestation).toString("hex") !== proof.leafHash.toLowerCase()) return false;
+  return verifyInclusion(proof.leafHash, proof.leafIndex, proof.treeSize, proof.auditPath, sth.rootHash);
+}
+
+// Offline check that a newer saved tree head extends an older one
+export function checkConsistency(older: SignedTreeHead, newer: SignedTreeHead, proof: string[], jwks: Jwks): boolean {
+  return verifyTreeHead(older, jwks) && verifyTreeHead(newer, jwks)
+    && verifyConsistency(older.treeSize, newer.treeSize, older.rootHash, newer.rootHash, proof);
+}
@@ -0,0 +1,113 @@
+// api/src/metrics.ts
+import { subscribe } from "./events.js";
+import { getEntropyPool } from "./pool.js";
+import { listAlerts } from "./beaconhealth.js";
+import { listBeacons } from "./registry.js";
+
+// Prometheus text exposition (format 0.0.4) for GET /metrics. Counters are fed
+// from the event bus, so every route that publishes nonce issuances or
+// verification outcomes is counted without touching the routes themselves.
+
+type Labels = Record<string, string>;
+
+function renderLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) =>
+    `${k}="${v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+class Counter {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1) {
+    const key = renderLabels(labels);
+    const s = this.series.get(key) ?? { labels, value: 0 };
+    s.value += by;
+    this.series.set(key, s);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const s of this.series.values()) lines.push(`${this.name}${renderLabels(s.labels)} ${s.value}`);
+    return lines;
+  }
+}
+
+class Histogram {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly buckets: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = renderLabels(labels);
+    const s = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((le, i) => { if (value <= le) s.counts[i]++; });
+    s.sum += value;
+    s.count++;
+    this.series.set(key, s);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const s of this.series.values()) {
+      this.buckets.forEach((le, i) => lines.push(`${this.name}_bucket${renderLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`));
+      lines.push(`${this.name}_bucket${renderLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+      lines.push(`${this.name}_sum${renderLabels(s.labels)} ${s.sum}`);
+      lines.push(`${this.name}_count${renderLabels(s.labels)} ${s.count}`);
+    }
+    return lines;
+  }
+}
+
+// Read at scrape time rather than tracked
+function gauge(name: string, help: string, values: [Labels, number][]): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, ...values.map(([l, v]) => `${name}${renderLabels(l)} ${v}`)];
+}
+
+const nonceRequests = new Counter("spacescrypt_nonce_requests_total", "Nonces issued, by entropy source and how the pool served them");
+const csprngFallbacks = new Counter("spacescrypt_entropy_csprng_fallbacks_total", "Nonces served by the local CSPRNG because the cTRNG providers before it failed");
+const verifyResults = new Counter("spacescrypt_verify_results_total", "Proof verifications by outcome: ok or the error code");
+const verifyDuration = new Histogram(
+  "spacescrypt_verify_duration_seconds",
+  "Verify request latency by route",
+  [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+);
+
+const startedAtS = Math.floor(Date.now() / 1000);
+
+export function initMetrics() {
+  csprngFallbacks.inc({}, 0);  // exported as 0 until the first fallback
+  subscribe(e => {
+    if (e.type === "nonce.issued") {
+      nonceRequests.inc({ source: e.data.source, pool: e.data.pool });
+      if (e.data.source === "csprng" && e.data.fallbackFrom.length) csprngFallbacks.inc();
+    } else if (e.type === "verification") {
+      verifyResults.inc({ code: e.data.result === "ok" ? "ok" : e.data.error ?? "unknown" });
+    }
+  });
+}
+
+export function observeVerifyDuration(route: string, seconds: number) {
+  verifyDuration.observe({ route }, seconds);
+}
+
+export function renderMetrics(): string {
+  const byStatus = new Map<string, number>();
+  for (const b of listBeacons()) byStatus.set(b.status, (byStatus.get(b.status) ?? 0) + 1);
+  const pool = getEntropyPool().status();
+  const alerts = new Map<string, number>([["clock_drift", 0], ["silent", 0], ["bad_signatures", 0]]);
+  for (const a of listAlerts({ open: true, limit: 1000 })) alerts.set(a.kind, (alerts.get(a.kind) ?? 0) + 1);
+  return [
+    ...nonceRequests.render(),
+    ...csprngFallbacks.render(),
+    ...verifyResults.render(),
+    ...verifyDuration.render(),
+    ...gauge("spacescrypt_beacons", "Beacons in the registry, by status", [...byStatus].map(([status, n]) => [{ status }, n])),
+    ...gauge("spacescrypt_beacon_alerts_open", "Open beacon health alerts, by kind", [...alerts].map(([kind, n]) => [{ kind }, n])),
+    ...gauge("spacescrypt_entropy_pool_size", "Prefetched nonces ready in the entropy pool", [[{}, pool.size]]),
+    ...gauge("process_start_time_seconds", "Start time of the process since the Unix epoch", [[{}, startedAtS]]),
+  ].join("\n") + "\n";
+}
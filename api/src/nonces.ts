@@ -0,0 +1,240 @@
+// api/src/nonces.ts
+import { config } from "./config.js";
+import { getDb } from "./db.js";
+
+export type NonceRecord = {
+  nonceHex: string;
+  issuedAtMs: number;
+  beaconIdHex?: string; // set when the nonce was requested for a specific beacon
+  tenantId?: string;    // relying party that requested it, if any
+  sessionHex?: string;  // zone check-in session it was issued for, if any
+  usedAtMs?: number;
+  sigFailedAtMs?: number; // first bad signature presented over it
+  // Randomness provenance: which provider produced the nonce and its receipt
+  source?: string;
+  receipt?: Record<string, unknown>;
+};
+
+export type NonceError =
+  | "unknown_nonce"
+  | "nonce_expired"
+  | "nonce_already_used"
+  | "nonce_beacon_mismatch"
+  | "nonce_tenant_mismatch"
+  | "nonce_session_mismatch";
+
+export interface NonceStore {
+  put(rec: NonceRecord): Promise<void>;
+  get(nonceHex: string): Promise<NonceRecord | undefined>;
+  // Marks the nonce as used. Resolves false if it was unknown or already used,
+  // so two concurrent verifications can never both consume the same nonce.
+  markUsed(nonceHex: string, usedAtMs: number): Promise<boolean>;
+  // Records a bad signature over the nonce. Resolves true only for the first
+  // one, so replaying a bad proof over one nonce counts as a single failure.
+  markSigFailed(nonceHex: string, atMs: number): Promise<boolean>;
+  // Drops records issued before `beforeMs`; returns how many were removed.
+  prune(beforeMs: number): Promise<number>;
+}
+
+export class MemoryNonceStore implements NonceStore {
+  protected readonly recs = new Map<string, NonceRecord>();
+
+  async put(rec: NonceRecord) {
+    this.recs.set(rec.nonceHex, { ...rec });
+  }
+
+  async get(nonceHex: string) {
+    const rec = this.recs.get(nonceHex);
+    return rec && { ...rec };
+  }
+
+  async markUsed(nonceHex: string, usedAtMs: number) {
+    const rec = this.recs.get(nonceHex);
+    if (!rec || rec.usedAtMs !== undefined) return false;
+    rec.usedAtMs = usedAtMs;
+    return true;
+  }
+
+  async markSigFailed(nonceHex: string, atMs: number) {
+    const rec = this.recs.get(nonceHex);
+    if (!rec || rec.sigFailedAtMs !== undefined) return false;
+    rec.sigFailedAtMs = atMs;
+    return true;
+  }
+
+  async prune(beforeMs: number) {
+    let n = 0;
+    for (const [k, rec] of this.recs) {
+      if (rec.issuedAtMs < beforeMs) {
+        this.recs.delete(k);
+        n++;
+      }
+    }
+    return n;
+  }
+}
+
+type NonceRow = {
+  nonce: string;
+  issued_at_ms: number;
+  beacon_id: string | null;
+  tenant_id: string | null;
+  session: string | null;
+  used_at_ms: number | null;
+  sig_failed_at_ms: number | null;
+  source: string | null;
+  receipt: string | null;
+};
+
+// Same semantics as the memory store, kept in the SQLite database (DB_PATH)
+// so issued/used nonces survive a restart. Every call is a single-row
+// statement on the primary key; marking is a conditional UPDATE, so it stays
+// atomic across concurrent verifications.
+export class SqliteNonceStore implements NonceStore {
+  constructor() {
+    getDb().exec(`
+      CREATE TABLE IF NOT EXISTS nonces (
+        nonce            TEXT PRIMARY KEY,
+        issued_at_ms     INTEGER NOT NULL,
+        beacon_id        TEXT,
+        tenant_id        TEXT,
+        session          TEXT,
+        used_at_ms       INTEGER,
+        sig_failed_at_ms INTEGER,
+        source           TEXT,
+        receipt          TEXT
+      );
+      CREATE INDEX IF NOT EXISTS nonces_issued ON nonces (issued_at_ms);
+    `);
+  }
+
+  async put(rec: NonceRecord) {
+    getDb().prepare(`
+      INSERT OR REPLACE INTO nonces (nonce, issued_at_ms, beacon_id, tenant_id, session, used_at_ms, sig_failed_at_ms, source, receipt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      rec.nonceHex,
+      rec.issuedAtMs,
+      rec.beaconIdHex ?? null,
+      rec.tenantId ?? null,
+      rec.sessionHex ?? null,
+      rec.usedAtMs ?? null,
+      rec.sigFailedAtMs ?? null,
+      rec.source ?? null,
+      rec.receipt ? JSON.stringify(rec.receipt) : null,
+    );
+  }
+
+  async get(nonceHex: string) {
+    const r = getDb().prepare("SELECT * FROM nonces WHERE nonce = ?").get(nonceHex) as NonceRow | undefined;
+    if (!r) return undefined;
+    return {
+      nonceHex: r.nonce,
+      issuedAtMs: r.issued_at_ms,
+      beaconIdHex: r.beacon_id ?? undefined,
+      tenantId: r.tenant_id ?? undefined,
+      sessionHex: r.session ?? undefined,
+      usedAtMs: r.used_at_ms ?? undefined,
+      sigFailedAtMs: r.sig_failed_at_ms ?? undefined,
+      source: r.source ?? undefined,
+      receipt: r.receipt ? JSON.parse(r.receipt) : undefined,
+    };
+  }
+
+  async markUsed(nonceHex: string, usedAtMs: number) {
+    const info = getDb().prepare("UPDATE nonces SET used_at_ms = ? WHERE nonce = ? AND used_at_ms IS NULL").run(usedAtMs, nonceHex);
+    return info.changes === 1;
+  }
+
+  async markSigFailed(nonceHex: string, atMs: number) {
+    const info = getDb().prepare("UPDATE nonces SET sig_failed_at_ms = ? WHERE nonce = ? AND sig_failed_at_ms IS NULL").run(atMs, nonceHex);
+    return info.changes === 1;
+  }
+
+  async prune(beforeMs: number) {
+    return Number(getDb().prepare("DELETE FROM nonces WHERE issued_at_ms < ?").run(beforeMs).changes);
+  }
+}
+
+export function createNonceStore(kind = config.nonceStore): NonceStore {
+  switch (kind) {
+    case "memory":
+      return new MemoryNonceStore();
+    // "file" is the old name, from when the ledger was a JSON file
+    case "sqlite":
+    case "file":
+      return new SqliteNonceStore();
+    default:
+      throw new Error(`Unknown NONCE_STORE: ${kind} (expect "memory" or "sqlite")`);
+  }
+}
+
+let store: NonceStore = new MemoryNonceStore();
+
+export function initNonceLedger(s: NonceStore = createNonceStore()) {
+  store = s;
+  // Expired nonces are rejected either way; keep them around for one extra
+  // TTL so a late replay still reports nonce_expired rather than unknown_nonce.
+  setInterval(() => {
+    store.prune(Date.now() - 2 * config.nonceTtlMs).catch((e) => console.error("Nonce prune failed:", e));
+  }, config.nonceTtlMs).unref();
+}
+
+export async function issueNonce(
+  p: {
+    nonceHex: string;
+    beaconIdHex?: string;
+    tenantId?: string;
+    sessionHex?: string;
+    source?: string;
+    receipt?: Record<string, unknown>;
+  },
+  nowMs = Date.now()
+): Promise<NonceRecord> {
+  const rec: NonceRecord = {
+    nonceHex: p.nonceHex.toLowerCase(),
+    issuedAtMs: nowMs,
+    beaconIdHex: p.beaconIdHex?.toLowerCase(),
+    tenantId: p.tenantId,
+    sessionHex: p.sessionHex?.toLowerCase(),
+    source: p.source,
+    receipt: p.receipt,
+  };
+  await store.put(rec);
+  return rec;
+}
+
+// Validates a presented nonce without consuming it. A nonce issued to a
+// tenant can only be presented by that tenant, and an anonymous one only
+// anonymously. Likewise a nonce issued for a zone session only counts in
+// that session's zone check-in.
+export async function checkNonce(
+  nonceHex: string,
+  beaconIdHex: string,
+  nowMs = Date.now(),
+  tenantId?: string,
+  sessionHex?: string
+): Promise<{ ok: true; rec: NonceRecord } | { ok: false; error: NonceError }> {
+  const rec = await store.get(nonceHex.toLowerCase());
+  if (!rec) return { ok: false, error: "unknown_nonce" };
+  if (rec.usedAtMs !== undefined) return { ok: false, error: "nonce_already_used" };
+  if (nowMs - rec.issuedAtMs > config.nonceTtlMs) return { ok: false, error: "nonce_expired" };
+  if (rec.beaconIdHex && rec.beaconIdHex !== beaconIdHex.toLowerCase()) {
+    return { ok: false, error: "nonce_beacon_mismatch" };
+  }
+  if (rec.tenantId !== tenantId) return { ok: false, error: "nonce_tenant_mismatch" };
+  if (rec.sessionHex !== sessionHex?.toLowerCase()) return { ok: false, error: "nonce_session_mismatch" };
+  return { ok: true, rec };
+}
+
+// Burns the nonce once a proof over it has been accepted.
+export async function consumeNonce(nonceHex: string, nowMs = Date.now()): Promise<NonceError | null> {
+  const ok = await store.markUsed(nonceHex.toLowerCase(), nowMs);
+  return ok ? null : "nonce_already_used";
+}
+
+// Notes a bad signature over a nonce the proof presented; true the first time
+// for that nonce, which is when it counts towards a lockout.
+export function noteBadSignature(nonceHex: string, nowMs = Date.now()): Promise<boolean> {
+  return store.markSigFailed(nonceHex.toLowerCase(), nowMs);
+}
@@ -0,0 +1,29 @@
+// api/src/policy.ts
+import { config } from "./config.js";
+
+export type TimestampPolicy = {
+  maxSkewMs: number;
+  maxLatencyMs: number;
+};
+
+export type TimestampError = "ts_too_old" | "ts_in_future" | "ts_before_nonce";
+
+export const defaultTimestampPolicy: TimestampPolicy = {
+  maxSkewMs: config.tsMaxSkewMs,
+  maxLatencyMs: config.tsMaxLatencyMs,
+};
+
+// The beacon signs ts_be64 right after receiving the nonce, so a genuine
+// timestamp must lie between nonce issuance and now, give or take clock skew,
+// and must not be older than the allowed response latency.
+export function checkTimestamp(
+  tsMs: number,
+  nonceIssuedAtMs: number,
+  nowMs = Date.now(),
+  policy = defaultTimestampPolicy
+): TimestampError | null {
+  if (!Number.isSafeInteger(tsMs) || tsMs > nowMs + policy.maxSkewMs) return "ts_in_future";
+  if (tsMs < nonceIssuedAtMs - policy.maxSkewMs) return "ts_before_nonce";
+  if (nowMs - tsMs > policy.maxLatencyMs + policy.maxSkewMs) return "ts_too_old";
+  return null;
+}
@@ -0,0 +1,192 @@
+// api/src/pool.ts
+import { bytesToHex } from "@spacescrypt/protocol";
+import { config } from "./config.js";
+import { CsprngProvider, getEntropyChain, type ChainProvider, type EntropySource } from "./entropy.js";
+
+export const NONCE_LEN = 16;
+
+// How a nonce was served: from prefetched entropy, from a live upstream draw
+// because the pool was dry, or straight from the local CSPRNG because even
+// the live draw failed. "disabled" means POOL_SIZE=0.
+export type PoolOutcome = "hit" | "miss" | "degraded" | "disabled";
+
+export type PooledEntropy = {
+  bytes: Uint8Array;
+  source: EntropySource;
+  receipt?: Record<string, unknown>;
+  fallbackFrom: EntropySource[];
+  pool: PoolOutcome;
+};
+
+type Slice = Omit<PooledEntropy, "pool">;
+
+export type PoolStatus = {
+  enabled: boolean;
+  size: number;
+  capacity: number;
+  lowWater: number;
+  refilling: boolean;
+  sourceMix: Partial<Record<EntropySource, number>>;
+  served: Record<PoolOutcome, number>;
+  duplicatesDropped: number;
+  lastRefillAtMs: number | null;
+  lastError: string | null;
+};
+
+// Upstream cTRNG output sliced into 16-byte nonces. Every slice is handed out
+// at most once, and slices already seen (e.g. the same IPFS beacon read twice)
+// are dropped, so no entropy is ever served twice.
+export class EntropyPool {
+  private readonly queue: Slice[] = [];
+  private readonly seen = new Set<string>();
+  private readonly seenOrder: string[] = [];
+  private refill?: Promise<void>;
+  private readonly served: Record<PoolOutcome, number> = { hit: 0, miss: 0, degraded: 0, disabled: 0 };
+  private duplicatesDropped = 0;
+  private lastRefillAtMs: number | null = null;
+  private lastError: string | null = null;
+  private readonly fallback = new CsprngProvider();
+
+  constructor(
+    private readonly chain: ChainProvider,
+    readonly capacity: number,
+    readonly lowWater: number
+  ) {}
+
+  get enabled() {
+    return this.capacity > 0;
+  }
+
+  start() {
+    if (this.enabled) this.triggerRefill();
+  }
+
+  async take(): Promise<PooledEntropy> {
+    if (!this.enabled) return this.live("disabled");
+    const slice = this.queue.shift();
+    if (this.queue.length <= this.lowWater) this.triggerRefill();
+    if (slice) {
+      this.served.hit++;
+      return { ...slice, pool: "hit" };
+    }
+    return this.live("miss");
+  }
+
+  status(): PoolStatus {
+    const sourceMix: PoolStatus["sourceMix"] = {};
+    for (const s of this.queue) sourceMix[s.source] = (sourceMix[s.source] ?? 0) + 1;
+    return {
+      enabled: this.enabled,
+      size: this.queue.length,
+      capacity: this.capacity,
+      lowWater: this.lowWater,
+      refilling: this.refill !== undefined,
+      sourceMix,
+      served: { ...this.served },
+      duplicatesDropped: this.duplicatesDropped,
+      lastRefillAtMs: this.lastRefillAtMs,
+      lastError: this.lastError,
+    };
+  }
+
+  // One draw from the provider chain, bypassing the queue. Surplus slices top
+  // up the pool; if every provider fails the local CSPRNG answers.
+  private async live(outcome: "miss" | "disabled"): Promise<PooledEntropy> {
+    try {
+      const slices = this.slice(await this.chain.draw(NONCE_LEN));
+      const first = slices.shift();
+      if (first) {
+        if (this.enabled) this.enqueue(slices);
+        this.served[outcome]++;
+        return { ...first, pool: outcome };
+      }
+      this.lastError = "live draw returned only already-served entropy";
+    } catch (error) {
+      this.lastError = String(error);
+    }
+    console.warn(`Entropy pool ${outcome}: upstream unavailable, serving local CSPRNG (${this.lastError})`);
+    const { bytes, source } = await this.fallback.draw(NONCE_LEN);
+    this.served.degraded++;
+    return { bytes, source, fallbackFrom: this.chain.providers.map((p) => p.name), pool: "degraded" };
+  }
+
+  private triggerRefill() {
+    this.refill ??= this.fill().finally(() => {
+      this.refill = undefined;
+    });
+  }
+
+  private async fill() {
+    while (this.queue.length < this.capacity) {
+      let drawn: Awaited<ReturnType<ChainProvider["draw"]>>;
+      try {
+        drawn = await this.chain.draw(NONCE_LEN);
+      } catch (error) {
+        this.lastError = String(error);
+        console.warn("Entropy pool refill failed:", error);
+        return;
+      }
+      const added = this.enqueue(this.slice(drawn));
+      this.lastRefillAtMs = Date.now();
+      // Upstream is repeating itself (e.g. IPFS has not published a new
+      // beacon yet), or the preferred provider is down and we only got a
+      // fallback's few bytes; try again on the next low-water trigger rather
+      // than hammering a failing provider once per slice.
+      if (!added || drawn.fallbackFrom.length) return;
+    }
+  }
+
+  // Cuts a draw into fresh 16-byte slices, dropping ones served before
+  private slice(r: Awaited<ReturnType<ChainProvider["draw"]>>): Slice[] {
+    const out: Slice[] = [];
+    for (let off = 0; off + NONCE_LEN <= r.bytes.length; off += NONCE_LEN) {
+      const bytes = r.bytes.slice(off, off + NONCE_LEN);
+      if (!this.remember(bytesToHex(bytes))) {
+        this.duplicatesDropped++;
+        continue;
+      }
+      out.push({
+        bytes,
+        source: r.source,
+        receipt: r.receipt && { ...r.receipt, byteOffset: off },
+        fallbackFrom: r.fallbackFrom,
+      });
+    }
+    return out;
+  }
+
+  private enqueue(slices: Slice[]): number {
+    const room = Math.max(this.capacity - this.queue.length, 0);
+    this.queue.push(...slices.slice(0, room));
+    return Math.min(slices.length, room);
+  }
+
+  // Bounded memory of served/queued slices; large enough to cover many
+  // upstream beacons, small enough not to grow without limit.
+  private remember(hex: string): boolean {
+    if (this.seen.has(hex)) return false;
+    this.seen.add(hex);
+    this.seenOrder.push(hex);
+    if (this.seenOrder.length > Math.max(this.capacity * 64, 4096)) {
+      this.seen.delete(this.seenOrder.shift()!);
+    }
+    return true;
+  }
+}
+
+let pool: EntropyPool | undefined;
+
+// Built once from POOL_SIZE / POOL_LOW_WATER over the ENTROPY_PROVIDERS chain
+export function getEntropyPool(): EntropyPool {
+  pool ??= new EntropyPool(getEntropyChain(), config.poolSize, config.poolLowWater);
+  return pool;
+}
+
+export function initEntropyPool() {
+  getEntropyPool().start();
+}
+
+// 16-byte nonce plus its provenance and how the pool served it
+export function randomNonce16(): Promise<PooledEntropy> {
+  return getEntropyPool().take();
+}
@@ -0,0 +1,132 @@
+// api/src/presence.ts
+import type { PresenceSession } from "@spacescrypt/protocol";
+import { config } from "./config.js";
+import { getDb } from "./db.js";
+
+// Continuous presence: a client in "stay checked in" mode picks a random
+// presenceId and re-verifies with the beacon on an interval. Each successful
+// heartbeat extends its open session; a session whose heartbeats stop for
+// PRESENCE_LAPSE_MS is closed at its last heartbeat, so durations only count
+// time that was actually proven.
+export type { PresenceSession };
+
+export type PresenceTotals = {
+  beaconIdHex: string;
+  sessions: number;
+  openSessions: number;
+  totalMs: number;
+};
+
+type SessionRow = {
+  session_id: number;
+  presence_id: string;
+  beacon_id: string;
+  tenant_id: string | null;
+  started_at_ms: number;
+  last_seen_at_ms: number;
+  ended_at_ms: number | null;
+  heartbeats: number;
+};
+
+export function initPresence() {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS presence_sessions (
+      session_id      INTEGER PRIMARY KEY AUTOINCREMENT,
+      presence_id     TEXT NOT NULL,
+      beacon_id       TEXT NOT NULL,
+      tenant_id       TEXT,
+      started_at_ms   INTEGER NOT NULL,
+      last_seen_at_ms INTEGER NOT NULL,
+      ended_at_ms     INTEGER,
+      heartbeats      INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS presence_sessions_open ON presence_sessions (presence_id) WHERE ended_at_ms IS NULL;
+    CREATE INDEX IF NOT EXISTS presence_sessions_beacon_time ON presence_sessions (beacon_id, started_at_ms);
+  `);
+  // A restart must not leave sessions open forever
+  closeLapsedSessions();
+  setInterval(() => closeLapsedSessions(), Math.min(config.presenceLapseMs, 60_000)).unref();
+}
+
+function fromRow(r: SessionRow): PresenceSession {
+  return {
+    sessionId: r.session_id,
+    presenceId: r.presence_id,
+    beaconIdHex: r.beacon_id,
+    tenantId: r.tenant_id,
+    startedAtMs: r.started_at_ms,
+    lastSeenAtMs: r.last_seen_at_ms,
+    endedAtMs: r.ended_at_ms,
+    heartbeats: r.heartbeats,
+  };
+}
+
+// One successful verification in stay-checked-in mode. Extends the open
+// session for this presenceId, or starts a new one when there is none, it
+// has lapsed, or the client moved to another beacon.
+export function recordHeartbeat(h: { presenceId: string; beaconIdHex: string; tenantId: string | null }, nowMs = Date.now()): PresenceSession {
+  const db = getDb();
+  const presenceId = h.presenceId.toLowerCase();
+  const beaconIdHex = h.beaconIdHex.toLowerCase();
+  const open = db.prepare("SELECT * FROM presence_sessions WHERE presence_id = ? AND ended_at_ms IS NULL").get(presenceId) as SessionRow | undefined;
+  if (open && open.beacon_id === beaconIdHex && open.tenant_id === h.tenantId && nowMs - open.last_seen_at_ms <= config.presenceLapseMs) {
+    db.prepare("UPDATE presence_sessions SET last_seen_at_ms = ?, heartbeats = heartbeats + 1 WHERE session_id = ?").run(nowMs, open.session_id);
+    return fromRow({ ...open, last_seen_at_ms: nowMs, heartbeats: open.heartbeats + 1 });
+  }
+  if (open) db.prepare("UPDATE presence_sessions SET ended_at_ms = last_seen_at_ms WHERE session_id = ?").run(open.session_id);
+  const { lastInsertRowid } = db.prepare(`
+    INSERT INTO presence_sessions (presence_id, beacon_id, tenant_id, started_at_ms, last_seen_at_ms, heartbeats)
+    VALUES (?, ?, ?, ?, ?, 1)
+  `).run(presenceId, beaconIdHex, h.tenantId, nowMs, nowMs);
+  return {
+    sessionId: Number(lastInsertRowid),
+    presenceId,
+    beaconIdHex,
+    tenantId: h.tenantId,
+    startedAtMs: nowMs,
+    lastSeenAtMs: nowMs,
+    endedAtMs: null,
+    heartbeats: 1,
+  };
+}
+
+export function closeLapsedSessions(nowMs = Date.now()): number {
+  const r = getDb().prepare(
+    "UPDATE presence_sessions SET ended_at_ms = last_seen_at_ms WHERE ended_at_ms IS NULL AND last_seen_at_ms < ?"
+  ).run(nowMs - config.presenceLapseMs);
+  return Number(r.changes);
+}
+
+export type PresenceQuery = { beaconIdHex?: string; tenantId?: string; fromMs?: number; toMs?: number };
+
+// Sessions overlapping [fromMs, toMs]
+function whereOverlapping(q: PresenceQuery): { sql: string; args: (string | number)[] } {
+  const where: string[] = [];
+  const args: (string | number)[] = [];
+  if (q.beaconIdHex) { where.push("beacon_id = ?"); args.push(q.beaconIdHex.toLowerCase()); }
+  if (q.tenantId) { where.push("tenant_id = ?"); args.push(q.tenantId); }
+  if (q.fromMs !== undefined) { where.push("last_seen_at_ms >= ?"); args.push(q.fromMs); }
+  if (q.toMs !== undefined) { where.push("started_at_ms <= ?"); args.push(q.toMs); }
+  return { sql: where.length ? `WHERE ${where.join(" AND ")}` : "", args };
+}
+
+// Newest first
+export function listSessions(q: PresenceQuery, limit: number): PresenceSession[] {
+  const { sql, args } = whereOverlapping(q);
+  const rows = getDb().prepare(
+    `SELECT * FROM presence_sessions ${sql} ORDER BY started_at_ms DESC, session_id DESC LIMIT ?`
+  ).all(...args, limit) as SessionRow[];
+  return rows.map(fromRow);
+}
+
+// Proven time per beacon, clipped to [fromMs, toMs]. An open session counts
+// up to its latest heartbeat.
+export function presenceTotals(q: PresenceQuery): PresenceTotals[] {
+  const { sql, args } = whereOverlapping(q);
+  const rows = getDb().prepare(`
+    SELECT beacon_id AS beaconIdHex, COUNT(*) AS sessions, SUM(ended_at_ms IS NULL) AS openSessions,
+      SUM(MAX(0, MIN(COALESCE(ended_at_ms, last_seen_at_ms), ?) - MAX(started_at_ms, ?))) AS totalMs
+    FROM presence_sessions ${sql} GROUP BY beacon_id ORDER BY beacon_id
+  `).all(q.toMs ?? Number.MAX_SAFE_INTEGER, q.fromMs ?? 0, ...args) as PresenceTotals[];
+  return rows.map(r => ({ ...r, totalMs: Number(r.totalMs) }));
+}
@@ -0,0 +1,117 @@
+// api/src/proofbundle.ts
+import {
+  buildMessageFor, hexToBytes, PROOF_BUNDLE_FORMAT, PROOF_BUNDLE_VERSIONS, type ProofBundle,
+} from "@spacescrypt/protocol";
+import { beaconSignatureValid, importBeaconKey } from "./crypto.js";
+import { checkInclusion, verifyJws, type Jwks } from "./merkle.js";
+
+// Offline re-check of a proof bundle: nothing here touches the database, the
+// registry or server config. `discrepancies` are reasons not to believe the
+// bundle; `warnings` are what it cannot vouch for (no attestation or log
+// proof yet, attestation keys taken from the bundle itself, a key revoked
+// after the fact).
+export type BundleCheck = { ok: boolean; discrepancies: string[]; warnings: string[] };
+
+const isStr = (v: unknown) => typeof v === "string";
+const isNum = (v: unknown) => typeof v === "number";
+const isOptStr = (v: unknown) => v === undefined || isStr(v);
+
+// Fields of a tampered or hand-edited bundle that have the wrong type, which
+// would otherwise throw halfway through the checks below
+function malformedFields(b: ProofBundle): string[] {
+  const bad: string[] = [];
+  const want = (name: string, ok: boolean) => ok || bad.push(name);
+  const { proof: p, beaconKey: k, verification: v, log } = b;
+  want("proof.beaconIdHex", isStr(p.beaconIdHex));
+  want("proof.nonceHex", isStr(p.nonceHex));
+  want("proof.tsMs", isStr(p.tsMs));
+  want("proof.sigHex", isStr(p.sigHex));
+  want("proof.sessionHex", isOptStr(p.sessionHex));
+  want("beaconKey.alg", isStr(k.alg));
+  want("beaconKey.publicKeyHex", isStr(k.publicKeyHex));
+  want("beaconKey.notBefore", isOptStr(k.notBefore));
+  want("beaconKey.notAfter", isOptStr(k.notAfter));
+  want("verification.attestation", v.attestation == null || isStr(v.attestation));
+  if (log) {
+    const { sth, proof } = log;
+    want("log.sth.treeSize", isNum(sth?.treeSize));
+    want("log.sth.rootHash", isStr(sth?.rootHash));
+    want("log.sth.timestampMs", isNum(sth?.timestampMs));
+    want("log.sth.signature", isStr(sth?.signature));
+    want("log.proof.leafIndex", isNum(proof?.leafIndex));
+    want("log.proof.leafHash", isStr(proof?.leafHash));
+    want("log.proof.treeSize", isNum(proof?.treeSize));
+    want("log.proof.auditPath", Array.isArray(proof?.auditPath) && proof.auditPath.every(isStr));
+  }
+  return bad;
+}
+
+// Pass `jwks` pinned from the API's /.well-known/jwks.json; without it the
+// bundle's own snapshot is used
+export function checkProofBundle(b: ProofBundle, jwks?: Jwks): BundleCheck {
+  const discrepancies: string[] = [];
+  const warnings: string[] = [];
+  const done = (): BundleCheck => ({ ok: discrepancies.length === 0, discrepancies, warnings });
+
+  if (b?.format !== PROOF_BUNDLE_FORMAT || !(PROOF_BUNDLE_VERSIONS as readonly number[]).includes(b.version)) {
+    discrepancies.push(`not a ${PROOF_BUNDLE_FORMAT} bundle of a known version`);
+    return done();
+  }
+  const { proof, beaconKey, verification } = b;
+  if (!proof || !beaconKey || !verification) {
+    discrepancies.push("bundle is missing its proof, beaconKey or verification");
+    return done();
+  }
+  const malformed = malformedFields(b);
+  if (malformed.length) {
+    discrepancies.push(`bundle has malformed ${malformed.join(", ")}`);
+    return done();
+  }
+  if (verification.result !== "ok") discrepancies.push(`server result is ${verification.result}, not ok`);
+
+  // The beacon's signature, with the key snapshot
+  const tsMs = Number(proof.tsMs);
+  try {
+    const key = importBeaconKey(beaconKey.alg, beaconKey.publicKeyHex);
+    const msg = buildMessageFor(proof.msgVersion, proof);
+    if (!beaconSignatureValid(beaconKey.alg, key, msg, hexToBytes(proof.sigHex))) {
+      discrepancies.push(`signature does not verify with ${beaconKey.alg} key ${beaconKey.publicKeyHex}`);
+    }
+  } catch (e) {
+    discrepancies.push(`proof or key is malformed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (beaconKey.notBefore && tsMs < Date.parse(beaconKey.notBefore)) discrepancies.push(`tsMs is before the key's notBefore ${beaconKey.notBefore}`);
+  if (beaconKey.notAfter && tsMs >= Date.parse(beaconKey.notAfter)) discrepancies.push(`tsMs is at or after the key's notAfter ${beaconKey.notAfter}`);
+  if (beaconKey.revoked) warnings.push("the beacon key was revoked by the time the bundle was made");
+
+  // The server's verdict, which must be about this very proof
+  const keys = jwks ?? b.jwks;
+  if (!jwks) warnings.push("attestation keys taken from the bundle; pin /.well-known/jwks.json with --jwks");
+  if (!verification.attestation) {
+    warnings.push("no attestation: the server's verdict is not signed");
+    return done();
+  }
+  const claims = verifyJws(verification.attestation, keys);
+  if (!claims) {
+    discrepancies.push("attestation signature does not verify with the attestation keys");
+  } else {
+    const expect: [string, unknown, unknown][] = [
+      ["beacon_id", claims.beacon_id, proof.beaconIdHex.toLowerCase()],
+      ["nonce", claims.nonce, proof.nonceHex.toLowerCase()],
+      ["beacon_ts_ms", claims.beacon_ts_ms, tsMs],
+      ["verified_at_ms", claims.verified_at_ms, verification.verifiedAtMs],
+      ["msg_v", claims.msg_v ?? 1, proof.msgVersion],
+      ["session", claims.session, proof.sessionHex?.toLowerCase()],
+    ];
+    for (const [name, got, want] of expect) {
+      if (got !== want) discrepancies.push(`attestation ${name} is ${JSON.stringify(got)}, bundle says ${JSON.stringify(want)}`);
+    }
+  }
+
+  // Its place in the transparency log
+  if (!b.log) warnings.push("no transparency log proof: the attestation was not yet in a published tree head");
+  else if (!checkInclusion(b.log.sth, b.log.proof, keys, verification.attestation)) {
+    discrepancies.push(`transparency log proof does not show the attestation in the tree head of size ${b.log.sth.treeSize}`);
+  }
+  return done();
+}
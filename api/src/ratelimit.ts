@@ -0,0 +1,177 @@
+// api/src/ratelimit.ts
+import type { FastifyReply, FastifyRequest } from "fastify";
+import { config } from "./config.js";
+
+// Token buckets: `capacity` requests in a burst, refilled at `perMinute`.
+// A perMinute of 0 disables the bucket.
+export type BucketLimit = { capacity: number; perMinute: number };
+
+export type BucketState = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;  // 0 when allowed
+  resetMs: number;       // until the bucket is full again
+};
+
+export type RateScope = "ip" | "api_key" | "beacon";
+
+export interface RateLimitStore {
+  // Takes `cost` tokens if the bucket has them; otherwise takes nothing.
+  consume(key: string, limit: BucketLimit, cost: number, nowMs: number): Promise<BucketState>;
+  // Counts one event in a sliding window; resolves the count within it.
+  hit(key: string, windowMs: number, nowMs: number): Promise<number>;
+  lock(key: string, untilMs: number): Promise<void>;
+  lockedUntil(key: string, nowMs: number): Promise<number | null>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { tokens: number; updatedMs: number; fullAtMs: number }>();
+  private readonly hits = new Map<string, number[]>();
+  private readonly locks = new Map<string, number>();
+
+  async consume(key: string, limit: BucketLimit, cost: number, nowMs: number): Promise<BucketState> {
+    const ratePerMs = limit.perMinute / 60_000;
+    const b = this.buckets.get(key) ?? { tokens: limit.capacity, updatedMs: nowMs, fullAtMs: nowMs };
+    b.tokens = Math.min(limit.capacity, b.tokens + (nowMs - b.updatedMs) * ratePerMs);
+    b.updatedMs = nowMs;
+    const allowed = b.tokens >= cost;
+    if (allowed) b.tokens -= cost;
+    b.fullAtMs = nowMs + Math.ceil((limit.capacity - b.tokens) / ratePerMs);
+    this.buckets.set(key, b);
+    return {
+      allowed,
+      remaining: Math.floor(b.tokens),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - b.tokens) / ratePerMs),
+      resetMs: b.fullAtMs - nowMs,
+    };
+  }
+
+  async hit(key: string, windowMs: number, nowMs: number): Promise<number> {
+    const recent = (this.hits.get(key) ?? []).filter(t => t > nowMs - windowMs);
+    recent.push(nowMs);
+    this.hits.set(key, recent);
+    return recent.length;
+  }
+
+  async lock(key: string, untilMs: number) {
+    this.locks.set(key, untilMs);
+  }
+
+  async lockedUntil(key: string, nowMs: number) {
+    const until = this.locks.get(key);
+    return until !== undefined && until > nowMs ? until : null;
+  }
+
+  // Forgets full buckets, stale failure counts and expired locks
+  sweep(nowMs: number, windowMs: number) {
+    for (const [k, b] of this.buckets) if (b.fullAtMs <= nowMs) this.buckets.delete(k);
+    for (const [k, ts] of this.hits) if (!ts.some(t => t > nowMs - windowMs)) this.hits.delete(k);
+    for (const [k, until] of this.locks) if (until <= nowMs) this.locks.delete(k);
+  }
+}
+
+export function createRateLimitStore(kind = config.rateLimitStore): RateLimitStore {
+  switch (kind) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${kind} (expect "memory")`);
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function initRateLimits(s: RateLimitStore = createRateLimitStore()) {
+  store = s;
+  if (s instanceof MemoryRateLimitStore) {
+    setInterval(() => s.sweep(Date.now(), config.lockoutWindowMs), 60_000).unref();
+  }
+}
+
+const LIMITS: Record<RateScope, BucketLimit> = {
+  ip: config.rateLimits.ip,
+  api_key: config.rateLimits.apiKey,
+  beacon: config.rateLimits.beacon,
+};
+
+// Beacons a request is about: ?beaconIdHex, body.beaconIdHex or each proof's
+function beaconsOf(req: FastifyRequest): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (id: unknown) => {
+    if (typeof id === "string") counts.set(id.toLowerCase(), (counts.get(id.toLowerCase()) ?? 0) + 1);
+  };
+  add((req.query as { beaconIdHex?: unknown } | undefined)?.beaconIdHex);
+  const body = req.body as { beaconIdHex?: unknown; proofs?: unknown } | undefined;
+  add(body?.beaconIdHex);
+  if (Array.isArray(body?.proofs)) body.proofs.forEach(p => add((p as { beaconIdHex?: unknown } | null)?.beaconIdHex));
+  return counts;
+}
+
+// preHandler (after tenantAuth): one bucket per API key, or per client IP
+// for anonymous calls (a relying party's backend sends all its users' calls
+// from one address), plus one per beacon. Buckets are kept separately for
+// each route group so verify traffic cannot starve nonce issuance. Batch
+// requests cost one token per proof, capped at the bucket size so a maximal
+// batch is still possible. RateLimit-* headers describe the tightest bucket;
+// a refusal is 429 with Retry-After.
+export function rateLimit(group: "nonce" | "verify") {
+  return async (req: FastifyRequest, res: FastifyReply) => {
+    const nowMs = Date.now();
+    const beacons = beaconsOf(req);
+    const total = Math.max(1, [...beacons.values()].reduce((a, b) => a + b, 0));
+
+    // A single-beacon request for a locked beacon is refused outright;
+    // batches get beacon_locked per proof from verify instead.
+    if (beacons.size === 1 && total === 1) {
+      const [id] = beacons.keys();
+      const until = await beaconLockedUntil(id, nowMs);
+      if (until) {
+        res.header("retry-after", Math.ceil((until - nowMs) / 1000));
+        return res.code(429).send({ ok: false, error: "beacon_locked", retryAfterS: Math.ceil((until - nowMs) / 1000) });
+      }
+    }
+
+    const checks: [RateScope, string, number][] = [req.apiKeyId ? ["api_key", req.apiKeyId, total] : ["ip", req.ip, total]];
+    for (const [id, n] of beacons) checks.push(["beacon", id, n]);
+
+    let tightest: { scope: RateScope; state: BucketState } | undefined;
+    for (const [scope, id, cost] of checks) {
+      const limit = LIMITS[scope];
+      if (limit.perMinute <= 0) continue;
+      const state = await store.consume(`${group}:${scope}:${id}`, limit, Math.min(cost, limit.capacity), nowMs);
+      if (!tightest || !state.allowed || (tightest.state.allowed && state.remaining < tightest.state.remaining)) {
+        tightest = { scope, state };
+      }
+      if (!state.allowed) break;
+    }
+    if (!tightest) return;
+
+    const { scope, state } = tightest;
+    res.header("ratelimit-limit", LIMITS[scope].capacity);
+    res.header("ratelimit-remaining", state.remaining);
+    res.header("ratelimit-reset", Math.ceil(state.resetMs / 1000));
+    if (!state.allowed) {
+      const retryAfterS = Math.ceil(state.retryAfterMs / 1000);
+      res.header("retry-after", retryAfterS);
+      return res.code(429).send({ ok: false, error: "rate_limited", scope, retryAfterS });
+    }
+  };
+}
+
+// Brute-force protection: LOCKOUT_FAILURES bad signatures for one beacon
+// within LOCKOUT_WINDOW_MS lock it for LOCKOUT_MS. verify only calls this for
+// the first bad signature over each nonce, so every failure counted has cost
+// the caller a fresh (rate-limited) nonce.
+export async function noteSignatureFailure(beaconIdHex: string, nowMs = Date.now()) {
+  if (config.lockoutFailures <= 0) return;
+  const id = beaconIdHex.toLowerCase();
+  const n = await store.hit(`sigfail:${id}`, config.lockoutWindowMs, nowMs);
+  if (n >= config.lockoutFailures) {
+    await store.lock(`beacon:${id}`, nowMs + config.lockoutMs);
+    console.warn(`Beacon ${id} locked for ${config.lockoutMs} ms after ${n} signature failures`);
+  }
+}
+
+export function beaconLockedUntil(beaconIdHex: string, nowMs = Date.now()): Promise<number | null> {
+  return store.lockedUntil(`beacon:${beaconIdHex.toLowerCase()}`, nowMs);
+}
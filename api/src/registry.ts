@@ -1,30 +1,314 @@
 import fs from "node:fs";
 import path from "node:path";
+import {
+  BEACON_ALGS, BEACON_STATUSES, MSG_VERSIONS,
+  type AdminBeacon, type AdminBeaconKey, type BeaconAlg, type BeaconStatus, type MsgVersion, type PublicBeacon,
+} from "@spacescrypt/protocol";
+import { writeFileAtomic } from "./fsutil.js";
+import { importBeaconKey } from "./crypto.js";
 
-// beaconIdHex -> publicKeyHex
-const REG = new Map<string, string>(); 
+// beacons.json comes in two shapes:
+//   v1 (flat):  { "<beaconIdHex>": "<publicKeyHex>", ... }
+//   v2:         { "version": 2, "beacons": { "<beaconIdHex>": {
+//                 "label": "Room 204", "site": "Lab Building",
+//                 "location": { "lat": 34.41, "lon": -119.84 },
+//                 "status": "active", "tags": ["lab"], "msgVersions": [2], "alg": "p256",
+//                 "keys": [ { "publicKeyHex": "...", "notBefore": "2026-01-01T00:00:00Z",
+//                   "notAfter": "2027-01-01T00:00:00Z", "revoked": false } ] } } }
+// Both are read; writes always produce v2. Metadata is optional; v1 beacons
+// are active with no label. msgVersions lists the signed message formats the
+// beacon may use (see crypto.ts); omitted means every format. alg is the
+// signature algorithm of all the beacon's keys, "ed25519" (default) or "p256".
+export type BeaconKey = {
+  publicKeyHex: string;
+  notBeforeMs?: number;
+  notAfterMs?: number;
+  revoked?: boolean;
+};
 
-export function loadBeaconRegistry(file = path.join(process.cwd(), "config/beacons.json")) {
+export type BeaconMeta = {
+  label?: string;
+  site?: string;
+  location?: { lat: number; lon: number };
+  status: BeaconStatus;
+  tags: string[];
+  msgVersions: MsgVersion[];
+  alg: BeaconAlg;
+};
+
+export type BeaconRecord = BeaconMeta & {
+  beaconIdHex: string;
+  keys: BeaconKey[];
+};
+
+export type KeySelectError = "unknown_beacon" | "key_revoked" | "no_valid_key";
+
+// Key as written in beacons.json v2 and accepted/returned by the admin API
+export type BeaconKeyJson = {
+  publicKeyHex: string;
+  notBefore?: string | number;
+  notAfter?: string | number;
+  revoked?: boolean;
+};
+// Beacon as written in beacons.json v2 (keyed by id) and used by the admin API
+export type BeaconJson = Partial<BeaconMeta> & { keys: BeaconKeyJson[] };
+type RegistryFileV2 = {
+  version: 2;
+  beacons: Record<string, BeaconJson>;
+};
+
+// beaconIdHex -> record
+const REG = new Map<string, BeaconRecord>();
+let registryFile = path.join(process.cwd(), "config/beacons.json");
+// For readiness: when the registry was last (re)loaded from disk or written,
+// and why the last hot reload was rejected, if it was
+let loadedAtMs: number | null = null;
+let lastReloadError: string | null = null;
+
+export function validateBeaconId(beaconIdHex: string): string | null {
+  return /^[0-9a-f]{16}$/i.test(beaconIdHex) ? null : `Bad beaconIdHex: ${beaconIdHex} (expect 16 hex chars)`;
+}
+
+// Returns a reason when the key is unacceptable, null when it is fine.
+export function validateBeaconKey(beaconIdHex: string, key: BeaconKey, alg: BeaconAlg = "ed25519"): string | null {
+  try {
+    importBeaconKey(alg, key.publicKeyHex);
+  } catch {
+    return alg === "p256"
+      ? `Bad publicKeyHex for ${beaconIdHex} (expect a P-256 point: 66 hex chars compressed or 130 uncompressed)`
+      : `Bad publicKeyHex for ${beaconIdHex} (expect 64 hex chars)`;
+  }
+  for (const v of [key.notBeforeMs, key.notAfterMs]) {
+    if (v !== undefined && !Number.isFinite(v)) return `Bad notBefore/notAfter for ${beaconIdHex}`;
+  }
+  if (key.notBeforeMs !== undefined && key.notAfterMs !== undefined && key.notAfterMs <= key.notBeforeMs) {
+    return `Key ${key.publicKeyHex.slice(0, 8)}… of ${beaconIdHex} has notAfter <= notBefore`;
+  }
+  return null;
+}
+
+export function validateBeaconRecord(rec: BeaconRecord): string | null {
+  const idErr = validateBeaconId(rec.beaconIdHex);
+  if (idErr) return idErr;
+  if (!BEACON_STATUSES.includes(rec.status)) {
+    return `Bad status for ${rec.beaconIdHex}: ${rec.status} (expect ${BEACON_STATUSES.join("/")})`;
+  }
+  if (rec.location) {
+    const { lat, lon } = rec.location;
+    if (!(Math.abs(lat) <= 90 && Math.abs(lon) <= 180)) return `Bad location for ${rec.beaconIdHex}`;
+  }
+  if (!rec.tags.every(t => typeof t === "string")) return `Bad tags for ${rec.beaconIdHex}`;
+  if (!rec.msgVersions.length || !rec.msgVersions.every(v => MSG_VERSIONS.includes(v))) {
+    return `Bad msgVersions for ${rec.beaconIdHex} (expect a non-empty subset of ${MSG_VERSIONS.join(", ")})`;
+  }
+  if (!BEACON_ALGS.includes(rec.alg)) return `Bad alg for ${rec.beaconIdHex}: ${rec.alg} (expect ${BEACON_ALGS.join("/")})`;
+  if (!rec.keys.length) return `Beacon ${rec.beaconIdHex} has no keys`;
+  for (const k of rec.keys) {
+    const err = validateBeaconKey(rec.beaconIdHex, k, rec.alg);
+    if (err) return err;
+  }
+  return null;
+}
+
+function parseTime(v: string | number | undefined): number | undefined {
+  if (v === undefined) return undefined;
+  return typeof v === "number" ? v : Date.parse(v);
+}
+
+function formatTime(ms: number | undefined): string | undefined {
+  return ms === undefined ? undefined : new Date(ms).toISOString();
+}
+
+export function keyFromJson(k: BeaconKeyJson): BeaconKey {
+  return {
+    publicKeyHex: String(k.publicKeyHex ?? "").toLowerCase(),
+    notBeforeMs: parseTime(k.notBefore),
+    notAfterMs: parseTime(k.notAfter),
+    revoked: k.revoked || undefined,
+  };
+}
+
+export function keyToJson(k: BeaconKey): AdminBeaconKey {
+  return {
+    publicKeyHex: k.publicKeyHex,
+    notBefore: formatTime(k.notBeforeMs),
+    notAfter: formatTime(k.notAfterMs),
+    revoked: k.revoked || undefined,
+  };
+}
+
+export function beaconFromJson(beaconIdHex: string, b: BeaconJson): BeaconRecord {
+  return {
+    beaconIdHex: beaconIdHex.toLowerCase(),
+    label: b.label,
+    site: b.site,
+    location: b.location && { lat: b.location.lat, lon: b.location.lon },
+    status: b.status ?? "active",
+    tags: b.tags ?? [],
+    msgVersions: b.msgVersions ?? [...MSG_VERSIONS],
+    alg: b.alg ?? "ed25519",
+    keys: (b.keys ?? []).map(keyFromJson),
+  };
+}
+
+export function beaconToJson(rec: BeaconRecord): BeaconJson {
+  return {
+    label: rec.label,
+    site: rec.site,
+    location: rec.location,
+    status: rec.status,
+    tags: rec.tags.length ? rec.tags : undefined,
+    msgVersions: rec.msgVersions.length < MSG_VERSIONS.length ? rec.msgVersions : undefined,
+    alg: rec.alg === "ed25519" ? undefined : rec.alg,
+    keys: rec.keys.map(keyToJson),
+  };
+}
+
+// GET /api/admin/beacons entry: the beacons.json v2 form with its id
+export function adminBeaconView(rec: BeaconRecord): AdminBeacon {
+  return { beaconIdHex: rec.beaconIdHex, ...beaconToJson(rec), status: rec.status, keys: rec.keys.map(keyToJson) };
+}
+
+// What anyone may see about a beacon: no keys
+export function publicBeaconView(rec: BeaconRecord): PublicBeacon {
+  return {
+    beaconIdHex: rec.beaconIdHex,
+    label: rec.label,
+    site: rec.site,
+    location: rec.location,
+    status: rec.status,
+    tags: rec.tags,
+    msgVersions: rec.msgVersions,
+    alg: rec.alg,
+  };
+}
+
+function parseRegistry(raw: string): Map<string, BeaconRecord> {
+  const obj = JSON.parse(raw) as RegistryFileV2 | Record<string, string>;
+  const entries: [string, BeaconJson][] =
+    obj.version === 2
+      ? Object.entries((obj as RegistryFileV2).beacons ?? {})
+      : Object.entries(obj as Record<string, string>).map(([id, publicKeyHex]) => [id, { keys: [{ publicKeyHex }] }]);
+
+  const next = new Map<string, BeaconRecord>();
+  for (const [beaconIdHex, b] of entries) {
+    const rec = beaconFromJson(beaconIdHex, b);
+    const err = validateBeaconRecord(rec);
+    if (err) throw new Error(err);
+    next.set(rec.beaconIdHex, rec);
+  }
+  return next;
+}
+
+function swapIn(next: Map<string, BeaconRecord>) {
+  REG.clear();
+  for (const [k, v] of next) REG.set(k, v);
+  loadedAtMs = Date.now();
+  lastReloadError = null;
+}
+
+export function loadBeaconRegistry(file = registryFile) {
+  registryFile = file;
   REG.clear();
   if (!fs.existsSync(file)) {
     console.warn(`Beacon registry not found at ${file}. Using empty registry.`);
     return;
   }
-  const raw = fs.readFileSync(file, "utf8");
-  const obj = JSON.parse(raw) as Record<string, string>;
+  swapIn(parseRegistry(fs.readFileSync(file, "utf8")));
+  console.log(`Loaded ${REG.size} beacon(s) from beacons.json`);
+}
+
+// Reload whenever the file changes on disk. A file that fails validation is
+// logged and ignored, so the last good registry stays in effect.
+export function watchBeaconRegistry() {
+  const dir = path.dirname(registryFile);
+  const base = path.basename(registryFile);
+  let timer: NodeJS.Timeout | undefined;
+  fs.mkdirSync(dir, { recursive: true });
+  // Watch the directory, not the file: atomic writes replace the inode.
+  const watcher = fs.watch(dir, (_event, name) => {
+    if (name !== base) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        if (!fs.existsSync(registryFile)) return;
+        swapIn(parseRegistry(fs.readFileSync(registryFile, "utf8")));
+        console.log(`Reloaded ${REG.size} beacon(s) from beacons.json`);
+      } catch (e) {
+        lastReloadError = String(e);
+        console.error("Beacon registry reload failed, keeping previous registry:", e);
+      }
+    }, 100);
+  });
+  watcher.unref();
+  return watcher;
+}
 
-  for (const [beaconIdHex, publicKeyHex] of Object.entries(obj)) {
-    if (!/^[0-9a-f]{16}$/i.test(beaconIdHex)) {
-      throw new Error(`Bad beaconIdHex: ${beaconIdHex} (expect 16 hex chars)`);
-    }
-    if (!/^[0-9a-f]{64}$/i.test(publicKeyHex)) {
-      throw new Error(`Bad publicKeyHex for ${beaconIdHex} (expect 64 hex chars)`);
-    }
-    REG.set(beaconIdHex.toLowerCase(), publicKeyHex.toLowerCase());
+function persist(next: Map<string, BeaconRecord>) {
+  const beacons: RegistryFileV2["beacons"] = {};
+  for (const rec of [...next.values()].sort((a, b) => a.beaconIdHex.localeCompare(b.beaconIdHex))) {
+    beacons[rec.beaconIdHex] = beaconToJson(rec);
   }
-  console.log(`Loaded ${REG.size} beacon(s) from beacons.json`);
+  const file: RegistryFileV2 = { version: 2, beacons };
+  writeFileAtomic(registryFile, JSON.stringify(file, null, 4) + "\n");
+}
+
+export function registryStatus() {
+  return { file: registryFile, loadedAtMs, lastReloadError, beacons: REG.size };
 }
 
-export function getPublicKeyHex(beaconIdHex: string): string | undefined {
+export function getBeacon(beaconIdHex: string): BeaconRecord | undefined {
   return REG.get(beaconIdHex.toLowerCase());
 }
+
+export function listBeacons(): BeaconRecord[] {
+  return [...REG.values()];
+}
+
+// Keys that may have produced a signature at `atMs`. Revoked keys are never
+// usable, whatever their window: a stolen key can stamp any timestamp. They
+// are still returned so the caller can tell a revoked signer from a bad one.
+export type KeySelection = { ok: true; keys: BeaconKey[]; revoked: BeaconKey[] } | { ok: false; error: KeySelectError };
+
+export function selectKeys(beaconIdHex: string, atMs: number): KeySelection {
+  const rec = getBeacon(beaconIdHex);
+  if (!rec) return { ok: false, error: "unknown_beacon" };
+  return keysAt(rec, atMs);
+}
+
+// Same as selectKeys, for a record the caller already looked up
+export function keysAt(rec: BeaconRecord, atMs: number): KeySelection {
+  const inWindow = rec.keys.filter(k =>
+    (k.notBeforeMs === undefined || atMs >= k.notBeforeMs) &&
+    (k.notAfterMs === undefined || atMs < k.notAfterMs)
+  );
+  const usable = inWindow.filter(k => !k.revoked);
+  if (usable.length) return { ok: true, keys: usable, revoked: inWindow.filter(k => k.revoked) };
+  return { ok: false, error: inWindow.length ? "key_revoked" : "no_valid_key" };
+}
+
+// Adds or replaces a beacon. The file is written first, so a failed write
+// leaves the in-memory registry untouched.
+export function putBeacon(rec: BeaconRecord) {
+  const norm: BeaconRecord = {
+    ...rec,
+    beaconIdHex: rec.beaconIdHex.toLowerCase(),
+    keys: rec.keys.map(k => ({ ...k, publicKeyHex: k.publicKeyHex.toLowerCase() })),
+  };
+  const err = validateBeaconRecord(norm);
+  if (err) throw new Error(err);
+  const next = new Map(REG);
+  next.set(norm.beaconIdHex, norm);
+  persist(next);
+  swapIn(next);
+}
+
+export function deleteBeacon(beaconIdHex: string): boolean {
+  const id = beaconIdHex.toLowerCase();
+  if (!REG.has(id)) return false;
+  const next = new Map(REG);
+  next.delete(id);
+  persist(next);
+  swapIn(next);
+  return true;
+}
@@ -0,0 +1,190 @@
+// api/src/tenants.ts
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { config } from "./config.js";
+import { getDb } from "./db.js";
+
+// A relying party: one of the apps built on this API. It authenticates with
+// its own API keys, may only call from its own origins, and may only issue
+// nonces for and verify proofs from the beacons it owns.
+export type Tenant = {
+  tenantId: string;
+  name: string;
+  origins: string[];  // empty = any origin allowed by CORS_ORIGINS or another tenant
+  beacons: string[];  // beaconIdHex, lowercase
+  createdAtMs: number;
+};
+
+export type ApiKeyInfo = {
+  keyId: string;
+  tenantId: string;
+  label: string | null;
+  createdAtMs: number;
+  revokedAtMs: number | null;
+  lastUsedAtMs: number | null;
+};
+
+export type ApiKeyError = "invalid_api_key" | "api_key_revoked";
+
+export type UsageRow = { day: string; metric: string; count: number };
+
+type TenantRow = { tenant_id: string; name: string; origins: string; beacons: string; created_at_ms: number };
+type KeyRow = {
+  key_id: string;
+  tenant_id: string;
+  secret_hash: string;
+  label: string | null;
+  created_at_ms: number;
+  revoked_at_ms: number | null;
+  last_used_at_ms: number | null;
+};
+
+export function initTenants() {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS tenants (
+      tenant_id     TEXT PRIMARY KEY,
+      name          TEXT NOT NULL,
+      origins       TEXT NOT NULL,
+      beacons       TEXT NOT NULL,
+      created_at_ms INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS api_keys (
+      key_id          TEXT PRIMARY KEY,
+      tenant_id       TEXT NOT NULL REFERENCES tenants (tenant_id),
+      secret_hash     TEXT NOT NULL,
+      label           TEXT,
+      created_at_ms   INTEGER NOT NULL,
+      revoked_at_ms   INTEGER,
+      last_used_at_ms INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS api_keys_tenant ON api_keys (tenant_id);
+    CREATE TABLE IF NOT EXISTS tenant_usage (
+      tenant_id TEXT NOT NULL,
+      day       TEXT NOT NULL,
+      metric    TEXT NOT NULL,
+      count     INTEGER NOT NULL,
+      PRIMARY KEY (tenant_id, day, metric)
+    );
+  `);
+}
+
+function fromRow(r: TenantRow): Tenant {
+  return {
+    tenantId: r.tenant_id,
+    name: r.name,
+    origins: JSON.parse(r.origins),
+    beacons: JSON.parse(r.beacons),
+    createdAtMs: r.created_at_ms,
+  };
+}
+
+function keyFromRow(r: KeyRow): ApiKeyInfo {
+  return {
+    keyId: r.key_id,
+    tenantId: r.tenant_id,
+    label: r.label,
+    createdAtMs: r.created_at_ms,
+    revokedAtMs: r.revoked_at_ms,
+    lastUsedAtMs: r.last_used_at_ms,
+  };
+}
+
+export function getTenant(tenantId: string): Tenant | undefined {
+  const r = getDb().prepare("SELECT * FROM tenants WHERE tenant_id = ?").get(tenantId) as TenantRow | undefined;
+  return r && fromRow(r);
+}
+
+export function listTenants(): Tenant[] {
+  return (getDb().prepare("SELECT * FROM tenants ORDER BY tenant_id").all() as TenantRow[]).map(fromRow);
+}
+
+// Insert or replace
+export function putTenant(t: Tenant) {
+  getDb().prepare(`
+    INSERT INTO tenants (tenant_id, name, origins, beacons, created_at_ms) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (tenant_id) DO UPDATE SET name = excluded.name, origins = excluded.origins, beacons = excluded.beacons
+  `).run(
+    t.tenantId,
+    t.name,
+    JSON.stringify(t.origins),
+    JSON.stringify([...new Set(t.beacons.map(b => b.toLowerCase()))]),
+    t.createdAtMs,
+  );
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+// Keys look like sck_<keyId>_<secret>. Only a SHA-256 of the secret is
+// stored; the full key is returned once, at creation.
+export function createApiKey(tenantId: string, label?: string, nowMs = Date.now()): { info: ApiKeyInfo; apiKey: string } {
+  const keyId = randomBytes(6).toString("hex");
+  const secret = randomBytes(32).toString("base64url");
+  getDb().prepare(`
+    INSERT INTO api_keys (key_id, tenant_id, secret_hash, label, created_at_ms) VALUES (?, ?, ?, ?, ?)
+  `).run(keyId, tenantId, hashSecret(secret), label ?? null, nowMs);
+  return {
+    info: { keyId, tenantId, label: label ?? null, createdAtMs: nowMs, revokedAtMs: null, lastUsedAtMs: null },
+    apiKey: `sck_${keyId}_${secret}`,
+  };
+}
+
+export function listApiKeys(tenantId: string): ApiKeyInfo[] {
+  const rows = getDb().prepare("SELECT * FROM api_keys WHERE tenant_id = ? ORDER BY created_at_ms").all(tenantId) as KeyRow[];
+  return rows.map(keyFromRow);
+}
+
+// False when the key does not exist or belongs to another tenant.
+// Revoking twice keeps the first revocation time.
+export function revokeApiKey(tenantId: string, keyId: string, nowMs = Date.now()): boolean {
+  const info = getDb().prepare(`
+    UPDATE api_keys SET revoked_at_ms = COALESCE(revoked_at_ms, ?) WHERE tenant_id = ? AND key_id = ?
+  `).run(nowMs, tenantId, keyId);
+  return Number(info.changes) > 0;
+}
+
+export function authenticateApiKey(
+  apiKey: string,
+  nowMs = Date.now()
+): { ok: true; tenant: Tenant; keyId: string } | { ok: false; error: ApiKeyError } {
+  const m = /^sck_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/.exec(apiKey);
+  if (!m) return { ok: false, error: "invalid_api_key" };
+  const [, keyId, secret] = m;
+  const row = getDb().prepare("SELECT * FROM api_keys WHERE key_id = ?").get(keyId) as KeyRow | undefined;
+  if (!row || !timingSafeEqual(Buffer.from(hashSecret(secret)), Buffer.from(row.secret_hash))) {
+    return { ok: false, error: "invalid_api_key" };
+  }
+  if (row.revoked_at_ms !== null) return { ok: false, error: "api_key_revoked" };
+  const tenant = getTenant(row.tenant_id);
+  if (!tenant) return { ok: false, error: "invalid_api_key" };
+  getDb().prepare("UPDATE api_keys SET last_used_at_ms = ? WHERE key_id = ?").run(nowMs, keyId);
+  return { ok: true, tenant, keyId };
+}
+
+export function ownsBeacon(tenant: Tenant, beaconIdHex: string): boolean {
+  return tenant.beacons.includes(beaconIdHex.toLowerCase());
+}
+
+// CORS: the static CORS_ORIGINS plus every origin some tenant registered.
+// Which tenant may use which origin is checked once the API key is known.
+export function isAllowedOrigin(origin: string): boolean {
+  if (config.corsOrigins.includes(origin)) return true;
+  return listTenants().some(t => t.origins.includes(origin));
+}
+
+// Daily counters per tenant, e.g. nonce, verify, verify_ok
+export function recordUsage(tenantId: string, metric: string, n = 1, nowMs = Date.now()) {
+  const day = new Date(nowMs).toISOString().slice(0, 10);
+  getDb().prepare(`
+    INSERT INTO tenant_usage (tenant_id, day, metric, count) VALUES (?, ?, ?, ?)
+    ON CONFLICT (tenant_id, day, metric) DO UPDATE SET count = count + excluded.count
+  `).run(tenantId, day, metric, n);
+}
+
+// Days are UTC YYYY-MM-DD, inclusive
+export function getUsage(tenantId: string, fromDay = "0000-00-00", toDay = "9999-99-99"): UsageRow[] {
+  return getDb().prepare(`
+    SELECT day, metric, count FROM tenant_usage
+    WHERE tenant_id = ? AND day >= ? AND day <= ? ORDER BY day, metric
+  `).all(tenantId, fromDay, toDay) as UsageRow[];
+}
@@ -0,0 +1,164 @@
+// api/src/translog.ts
+import { signTreeHead } from "./attest.js";
+import { config } from "./config.js";
+import { getDb } from "./db.js";
+import { leafHash, MerkleTree, type InclusionProof, type SignedTreeHead } from "./merkle.js";
+
+// Append-only transparency log of successful verifications. Every attestation
+// token /api/verify, the batch route or a zone check-in hands out becomes one
+// leaf, hashed as SHA-256(0x00 || token), so whoever holds a token can find
+// and prove its leaf while the log itself reveals nothing about who was where.
+// A signed tree head (STH) is published every LOG_STH_INTERVAL_MS when the
+// log grew; proofs are always against a published head, and clients that
+// keep the heads they have seen can check later ones extend them.
+type LeafRow = { leaf_index: number; leaf_hash: string };
+type TreeHeadRow = { tree_size: number; root_hash: string; timestamp_ms: number; signature: string };
+
+export type LogError = "leaf_not_found" | "leaf_not_yet_included" | "unknown_tree_size";
+
+const tree = new MerkleTree();
+
+export function initTransparencyLog() {
+  const db = getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS log_leaves (
+      leaf_index      INTEGER PRIMARY KEY,
+      leaf_hash       TEXT NOT NULL,
+      leaf_data       TEXT NOT NULL,
+      verification_id INTEGER,
+      appended_at_ms  INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS log_leaves_hash ON log_leaves (leaf_hash);
+    CREATE INDEX IF NOT EXISTS log_leaves_verification ON log_leaves (verification_id);
+    CREATE TABLE IF NOT EXISTS log_tree_heads (
+      tree_size    INTEGER PRIMARY KEY,
+      root_hash    TEXT NOT NULL,
+      timestamp_ms INTEGER NOT NULL,
+      signature    TEXT NOT NULL
+    );
+  `);
+  const rows = db.prepare("SELECT leaf_index, leaf_hash FROM log_leaves ORDER BY leaf_index").all() as LeafRow[];
+  for (const r of rows) {
+    if (r.leaf_index !== tree.size) throw new Error(`Transparency log is missing leaf ${tree.size}`);
+    tree.append(Buffer.from(r.leaf_hash, "hex"));
+  }
+  // Edited or dropped leaves would otherwise only show up in clients' proofs,
+  // and a head signed over them would make the tampering official
+  const head = latestTreeHead();
+  if (head && (head.treeSize > tree.size || tree.root(head.treeSize).toString("hex") !== head.rootHash)) {
+    throw new Error(`Transparency log does not match its tree head of size ${head.treeSize}: leaves were altered`);
+  }
+
+  publishTreeHead();
+  setInterval(() => {
+    try {
+      publishTreeHead();
+    } catch (err) {
+      // e.g. SQLITE_BUSY; the next tick tries again
+      console.error("Publishing the transparency log tree head failed:", err);
+    }
+  }, config.logSthIntervalMs).unref();
+}
+
+// Called by the routes themselves, before the attestation is handed out or
+// published, so a failed append fails the request rather than leaving a token
+// out of the log
+export function appendLeaf(data: string, verificationId: number | null, nowMs = Date.now()): number {
+  const hash = leafHash(data);
+  getDb().prepare(
+    "INSERT INTO log_leaves (leaf_index, leaf_hash, leaf_data, verification_id, appended_at_ms) VALUES (?, ?, ?, ?, ?)"
+  ).run(tree.size, hash.toString("hex"), data, verificationId, nowMs);
+  return tree.append(hash);
+}
+
+// Signs and stores a head for the current tree, unless nothing was appended
+// since the last one
+export function publishTreeHead(nowMs = Date.now()): SignedTreeHead {
+  const last = latestTreeHead();
+  if (last && last.treeSize === tree.size) return last;
+  const treeSize = tree.size;
+  const rootHash = tree.root(treeSize).toString("hex");
+  const signature = signTreeHead({ treeSize, rootHash, timestampMs: nowMs });
+  getDb().prepare(
+    "INSERT INTO log_tree_heads (tree_size, root_hash, timestamp_ms, signature) VALUES (?, ?, ?, ?)"
+  ).run(treeSize, rootHash, nowMs, signature);
+  return { treeSize, rootHash, timestampMs: nowMs, signature };
+}
+
+function fromRow(r: TreeHeadRow): SignedTreeHead {
+  return { treeSize: r.tree_size, rootHash: r.root_hash, timestampMs: r.timestamp_ms, signature: r.signature };
+}
+
+export function latestTreeHead(): SignedTreeHead | undefined {
+  const r = getDb().prepare("SELECT * FROM log_tree_heads ORDER BY tree_size DESC LIMIT 1").get() as TreeHeadRow | undefined;
+  return r && fromRow(r);
+}
+
+export function treeHeadOfSize(treeSize: number): SignedTreeHead | undefined {
+  const r = getDb().prepare("SELECT * FROM log_tree_heads WHERE tree_size = ?").get(treeSize) as TreeHeadRow | undefined;
+  return r && fromRow(r);
+}
+
+// The leaf holding a verification's attestation; none for verifications
+// made before the log existed
+export function leafOfVerification(verificationId: number): { leafIndex: number; data: string } | undefined {
+  const r = getDb().prepare("SELECT leaf_index, leaf_data FROM log_leaves WHERE verification_id = ? LIMIT 1")
+    .get(verificationId) as { leaf_index: number; leaf_data: string } | undefined;
+  return r && { leafIndex: r.leaf_index, data: r.leaf_data };
+}
+
+// The verification an attestation token was logged for; null for zone
+// attestations, undefined for tokens the log has never seen
+export function verificationOfLeaf(data: string): number | null | undefined {
+  const r = getDb().prepare("SELECT verification_id FROM log_leaves WHERE leaf_hash = ? ORDER BY leaf_index LIMIT 1")
+    .get(leafHash(data).toString("hex")) as { verification_id: number | null } | undefined;
+  return r?.verification_id;
+}
+
+// `leaf` is a leaf index or a 64-hex leaf hash. Proves inclusion in the
+// published head of `treeSize`, by default the latest one.
+export function inclusionProof(
+  leaf: number | string,
+  treeSize?: number
+): { ok: true; proof: InclusionProof; sth: SignedTreeHead } | { ok: false; error: LogError } {
+  const sth = treeSize === undefined ? latestTreeHead() : treeHeadOfSize(treeSize);
+  if (!sth) return { ok: false, error: "unknown_tree_size" };
+  let leafIndex: number;
+  if (typeof leaf === "number") {
+    if (leaf >= tree.size) return { ok: false, error: "leaf_not_found" };
+    leafIndex = leaf;
+  } else {
+    const r = getDb().prepare("SELECT leaf_index FROM log_leaves WHERE leaf_hash = ? ORDER BY leaf_index LIMIT 1")
+      .get(leaf.toLowerCase()) as { leaf_index: number } | undefined;
+    if (!r) return { ok: false, error: "leaf_not_found" };
+    leafIndex = r.leaf_index;
+  }
+  if (leafIndex >= sth.treeSize) return { ok: false, error: "leaf_not_yet_included" };
+  return {
+    ok: true,
+    proof: {
+      leafIndex,
+      leafHash: tree.leaf(leafIndex)!.toString("hex"),
+      treeSize: sth.treeSize,
+      auditPath: tree.inclusionProof(leafIndex, sth.treeSize).map(h => h.toString("hex")),
+    },
+    sth,
+  };
+}
+
+// Proof that the published head of size `second` (default latest) extends
+// the one of size `first`
+export function consistencyProof(
+  first: number,
+  second?: number
+): { ok: true; first: SignedTreeHead; second: SignedTreeHead; proof: string[] } | { ok: false; error: LogError } {
+  const older = treeHeadOfSize(first);
+  const newer = second === undefined ? latestTreeHead() : treeHeadOfSize(second);
+  if (!older || !newer || older.treeSize > newer.treeSize) return { ok: false, error: "unknown_tree_size" };
+  return {
+    ok: true,
+    first: older,
+    second: newer,
+    proof: tree.consistencyProof(older.treeSize, newer.treeSize).map(h => h.toString("hex")),
+  };
+}
@@ -0,0 +1,330 @@
+// api/src/webhooks.ts
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import { config } from "./config.js";
+import { getDb } from "./db.js";
+import { subscribe, type VerificationOutcome } from "./events.js";
+
+// Subscriptions receive verification events as signed JSON POSTs. Deliveries
+// are queued in SQLite and sent by a background worker, so /api/verify never
+// waits on a subscriber and pending retries survive a restart.
+//
+// Each request carries
+//   X-Spacescrypt-Event:     verification.succeeded | verification.failed
+//   X-Spacescrypt-Delivery:  delivery id (stable across retries)
+//   X-Spacescrypt-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+// Receivers should recompute v1 and reject stale t to stop replays.
+export type WebhookEventType = "verification.succeeded" | "verification.failed";
+
+export type VerificationEvent = {
+  id: string;
+  type: WebhookEventType;
+  createdAtMs: number;
+  data: VerificationOutcome;
+};
+
+export type Webhook = {
+  id: number;
+  url: string;
+  beacons: string[] | null;        // null = every beacon
+  result: "ok" | "fail" | null;    // null = both
+  active: boolean;
+  createdAtMs: number;
+};
+
+export type DeliveryStatus = "pending" | "delivered" | "dead";
+
+export type Delivery = {
+  id: number;
+  webhookId: number;
+  eventId: string;
+  eventType: WebhookEventType;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAtMs: number | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAtMs: number;
+  deliveredAtMs: number | null;
+};
+
+export type DeliveryAttempt = { atMs: number; statusCode: number | null; error: string | null; durationMs: number };
+
+type WebhookRow = {
+  id: number;
+  url: string;
+  secret: string;
+  beacons: string | null;
+  result: "ok" | "fail" | null;
+  active: number;
+  created_at_ms: number;
+};
+type DeliveryRow = {
+  id: number;
+  webhook_id: number;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at_ms: number | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at_ms: number;
+  delivered_at_ms: number | null;
+};
+
+export function initWebhooks() {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id            INTEGER PRIMARY KEY AUTOINCREMENT,
+      url           TEXT NOT NULL,
+      secret        TEXT NOT NULL,
+      beacons       TEXT,
+      result        TEXT CHECK (result IN ('ok', 'fail')),
+      active        INTEGER NOT NULL DEFAULT 1,
+      created_at_ms INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id         INTEGER NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+      event_id           TEXT NOT NULL,
+      event_type         TEXT NOT NULL,
+      payload            TEXT NOT NULL,
+      status             TEXT NOT NULL CHECK (status IN ('pending', 'delivered', 'dead')),
+      attempts           INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at_ms INTEGER,
+      last_status_code   INTEGER,
+      last_error         TEXT,
+      created_at_ms      INTEGER NOT NULL,
+      delivered_at_ms    INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at_ms);
+    CREATE INDEX IF NOT EXISTS webhook_deliveries_hook ON webhook_deliveries (webhook_id, id);
+    CREATE TABLE IF NOT EXISTS webhook_attempts (
+      delivery_id INTEGER NOT NULL REFERENCES webhook_deliveries (id) ON DELETE CASCADE,
+      at_ms       INTEGER NOT NULL,
+      status_code INTEGER,
+      error       TEXT,
+      duration_ms INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS webhook_attempts_delivery ON webhook_attempts (delivery_id);
+  `);
+  subscribe(e => {
+    if (e.type === "verification") emitVerificationEvent(e.data, e.atMs);
+  });
+  // Pick up deliveries left pending by a previous run, then poll for retries
+  setInterval(kick, 1000).unref();
+  kick();
+}
+
+function fromRow(r: WebhookRow): Webhook {
+  return {
+    id: r.id,
+    url: r.url,
+    beacons: r.beacons ? JSON.parse(r.beacons) : null,
+    result: r.result,
+    active: !!r.active,
+    createdAtMs: r.created_at_ms,
+  };
+}
+
+function deliveryFromRow(r: DeliveryRow): Delivery {
+  return {
+    id: r.id,
+    webhookId: r.webhook_id,
+    eventId: r.event_id,
+    eventType: r.event_type,
+    status: r.status,
+    attempts: r.attempts,
+    nextAttemptAtMs: r.next_attempt_at_ms,
+    lastStatusCode: r.last_status_code,
+    lastError: r.last_error,
+    createdAtMs: r.created_at_ms,
+    deliveredAtMs: r.delivered_at_ms,
+  };
+}
+
+export function listWebhooks(): Webhook[] {
+  return (getDb().prepare("SELECT * FROM webhooks ORDER BY id").all() as WebhookRow[]).map(fromRow);
+}
+
+export function getWebhook(id: number): Webhook | undefined {
+  const r = getDb().prepare("SELECT * FROM webhooks WHERE id = ?").get(id) as WebhookRow | undefined;
+  return r && fromRow(r);
+}
+
+// The signing secret is returned only here; store it on the receiving side.
+export function createWebhook(
+  p: { url: string; beacons?: string[] | null; result?: "ok" | "fail" | null },
+  nowMs = Date.now()
+): { webhook: Webhook; secret: string } {
+  const secret = `whsec_${randomBytes(24).toString("base64url")}`;
+  const beacons = p.beacons ? p.beacons.map(b => b.toLowerCase()) : null;
+  const info = getDb().prepare(`
+    INSERT INTO webhooks (url, secret, beacons, result, created_at_ms) VALUES (?, ?, ?, ?, ?)
+  `).run(p.url, secret, beacons && JSON.stringify(beacons), p.result ?? null, nowMs);
+  return { webhook: getWebhook(Number(info.lastInsertRowid))!, secret };
+}
+
+export function updateWebhook(
+  id: number,
+  p: { url?: string; beacons?: string[] | null; result?: "ok" | "fail" | null; active?: boolean }
+): boolean {
+  const prev = getWebhook(id);
+  if (!prev) return false;
+  const next = { ...prev, ...p };
+  getDb().prepare("UPDATE webhooks SET url = ?, beacons = ?, result = ?, active = ? WHERE id = ?").run(
+    next.url,
+    next.beacons && JSON.stringify(next.beacons.map(b => b.toLowerCase())),
+    next.result,
+    next.active ? 1 : 0,
+    id,
+  );
+  return true;
+}
+
+export function deleteWebhook(id: number): boolean {
+  return Number(getDb().prepare("DELETE FROM webhooks WHERE id = ?").run(id).changes) > 0;
+}
+
+export function signPayload(secret: string, body: string, tSec: number): string {
+  const v1 = createHmac("sha256", secret).update(`${tSec}.${body}`).digest("hex");
+  return `t=${tSec},v1=${v1}`;
+}
+
+// Queues one delivery per matching, active subscription. Synchronous and
+// cheap (a few inserts); the network work happens in the worker.
+export function emitVerificationEvent(data: VerificationEvent["data"], nowMs = Date.now()) {
+  const event: VerificationEvent = {
+    id: randomUUID(),
+    type: data.result === "ok" ? "verification.succeeded" : "verification.failed",
+    createdAtMs: nowMs,
+    data,
+  };
+  const hooks = listWebhooks().filter(h =>
+    h.active &&
+    (!h.result || h.result === data.result) &&
+    (!h.beacons || h.beacons.includes(data.beaconIdHex.toLowerCase()))
+  );
+  if (!hooks.length) return;
+  const insert = getDb().prepare(`
+    INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload, status, next_attempt_at_ms, created_at_ms)
+    VALUES (?, ?, ?, ?, 'pending', ?, ?)
+  `);
+  const payload = JSON.stringify(event);
+  for (const h of hooks) insert.run(h.id, event.id, event.type, payload, nowMs, nowMs);
+  kick();
+}
+
+export function listDeliveries(q: { webhookId?: number; status?: DeliveryStatus; limit?: number }): Delivery[] {
+  const conds: string[] = [];
+  const args: (string | number)[] = [];
+  if (q.webhookId !== undefined) { conds.push("webhook_id = ?"); args.push(q.webhookId); }
+  if (q.status) { conds.push("status = ?"); args.push(q.status); }
+  const where = conds.length ? `WHERE ${conds.join(" AND ")}` : "";
+  const rows = getDb()
+    .prepare(`SELECT * FROM webhook_deliveries ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...args, Math.min(Math.max(q.limit ?? 100, 1), 1000)) as DeliveryRow[];
+  return rows.map(deliveryFromRow);
+}
+
+export function listAttempts(deliveryId: number): DeliveryAttempt[] {
+  return getDb().prepare(`
+    SELECT at_ms AS atMs, status_code AS statusCode, error, duration_ms AS durationMs
+    FROM webhook_attempts WHERE delivery_id = ? ORDER BY at_ms
+  `).all(deliveryId) as DeliveryAttempt[];
+}
+
+// Puts a delivery (typically a dead one) back in the queue with a fresh
+// retry budget. Returns false for an unknown delivery.
+export function redeliver(deliveryId: number, nowMs = Date.now()): boolean {
+  const info = getDb().prepare(`
+    UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at_ms = ?, delivered_at_ms = NULL
+    WHERE id = ?
+  `).run(nowMs, deliveryId);
+  if (!Number(info.changes)) return false;
+  kick();
+  return true;
+}
+
+// Exponential backoff with jitter: base, 2x base, 4x base, ... capped at 1h
+function backoffMs(attempts: number): number {
+  const ms = Math.min(config.webhookBackoffMs * 2 ** (attempts - 1), 60 * 60_000);
+  return Math.round(ms * (0.8 + Math.random() * 0.4));
+}
+
+async function attempt(d: DeliveryRow, hook: Pick<WebhookRow, "url" | "secret">) {
+  const started = Date.now();
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    const res = await fetch(hook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "spacescrypt-webhooks",
+        "X-Spacescrypt-Event": d.event_type,
+        "X-Spacescrypt-Delivery": String(d.id),
+        "X-Spacescrypt-Signature": signPayload(hook.secret, d.payload, Math.floor(started / 1000)),
+      },
+      body: d.payload,
+      signal: AbortSignal.timeout(config.webhookTimeoutMs),
+    });
+    statusCode = res.status;
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+  const now = Date.now();
+  const db = getDb();
+  db.prepare("INSERT INTO webhook_attempts (delivery_id, at_ms, status_code, error, duration_ms) VALUES (?, ?, ?, ?, ?)")
+    .run(d.id, started, statusCode, error, now - started);
+
+  const attempts = d.attempts + 1;
+  if (!error) {
+    db.prepare(`
+      UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, next_attempt_at_ms = NULL,
+        last_status_code = ?, last_error = NULL, delivered_at_ms = ? WHERE id = ?
+    `).run(attempts, statusCode, now, d.id);
+  } else if (attempts >= config.webhookMaxAttempts) {
+    console.warn(`Webhook delivery ${d.id} to ${hook.url} dead after ${attempts} attempts: ${error}`);
+    db.prepare(`
+      UPDATE webhook_deliveries SET status = 'dead', attempts = ?, next_attempt_at_ms = NULL,
+        last_status_code = ?, last_error = ? WHERE id = ?
+    `).run(attempts, statusCode, error, d.id);
+  } else {
+    db.prepare(`
+      UPDATE webhook_deliveries SET attempts = ?, next_attempt_at_ms = ?, last_status_code = ?, last_error = ? WHERE id = ?
+    `).run(attempts, now + backoffMs(attempts), statusCode, error, d.id);
+  }
+}
+
+let running = false;
+let again = false;
+
+// Sends everything that is due. Only one pass runs at a time; a kick during a
+// pass schedules another one right after it.
+function kick() {
+  if (running) {
+    again = true;
+    return;
+  }
+  running = true;
+  void (async () => {
+    try {
+      do {
+        again = false;
+        const due = getDb().prepare(`
+          SELECT d.*, w.url, w.secret FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+          WHERE d.status = 'pending' AND d.next_attempt_at_ms <= ? ORDER BY d.next_attempt_at_ms LIMIT 50
+        `).all(Date.now()) as (DeliveryRow & Pick<WebhookRow, "url" | "secret">)[];
+        await Promise.all(due.map(d => attempt(d, d)));
+        if (due.length === 50) again = true;
+      } while (again);
+    } catch (e) {
+      console.error("Webhook worker failed:", e);
+    } finally {
+      running = false;
+    }
+  })();
+}
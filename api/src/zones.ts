@@ -0,0 +1,92 @@
+// api/src/zones.ts
+import { getDb } from "./db.js";
+import { validateBeaconId } from "./registry.js";
+
+// A group of beacons in one place (a room, a door). Presence in the zone
+// needs proofs from `threshold` of its beacons whose signed timestamps lie
+// within `windowMs` of each other, so carrying a single beacon out of the
+// room is not enough.
+export type Zone = {
+  zoneId: string;
+  name: string;
+  beacons: string[];  // beaconIdHex, lowercase
+  threshold: number;  // K of N = beacons.length
+  windowMs: number;
+  createdAtMs: number;
+};
+
+export const DEFAULT_ZONE_WINDOW_MS = 60_000;
+
+type ZoneRow = { zone_id: string; name: string; beacons: string; threshold: number; window_ms: number; created_at_ms: number };
+
+export function initZones() {
+  getDb().exec(`
+    CREATE TABLE IF NOT EXISTS zones (
+      zone_id       TEXT PRIMARY KEY,
+      name          TEXT NOT NULL,
+      beacons       TEXT NOT NULL,
+      threshold     INTEGER NOT NULL,
+      window_ms     INTEGER NOT NULL,
+      created_at_ms INTEGER NOT NULL
+    );
+  `);
+}
+
+function fromRow(r: ZoneRow): Zone {
+  return {
+    zoneId: r.zone_id,
+    name: r.name,
+    beacons: JSON.parse(r.beacons),
+    threshold: r.threshold,
+    windowMs: r.window_ms,
+    createdAtMs: r.created_at_ms,
+  };
+}
+
+export function validateZone(z: Zone): string | null {
+  for (const id of z.beacons) {
+    const err = validateBeaconId(id);
+    if (err) return err;
+  }
+  if (new Set(z.beacons.map(b => b.toLowerCase())).size !== z.beacons.length) return "Zone lists a beacon twice";
+  if (!Number.isInteger(z.threshold) || z.threshold < 1 || z.threshold > z.beacons.length) {
+    return `threshold must be between 1 and the number of beacons (${z.beacons.length})`;
+  }
+  if (!Number.isInteger(z.windowMs) || z.windowMs <= 0) return "windowMs must be a positive integer";
+  return null;
+}
+
+export function getZone(zoneId: string): Zone | undefined {
+  const r = getDb().prepare("SELECT * FROM zones WHERE zone_id = ?").get(zoneId) as ZoneRow | undefined;
+  return r && fromRow(r);
+}
+
+export function listZones(): Zone[] {
+  return (getDb().prepare("SELECT * FROM zones ORDER BY zone_id").all() as ZoneRow[]).map(fromRow);
+}
+
+// Insert or replace
+export function putZone(z: Zone) {
+  getDb().prepare(`
+    INSERT INTO zones (zone_id, name, beacons, threshold, window_ms, created_at_ms) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (zone_id) DO UPDATE SET
+      name = excluded.name, beacons = excluded.beacons, threshold = excluded.threshold, window_ms = excluded.window_ms
+  `).run(z.zoneId, z.name, JSON.stringify(z.beacons.map(b => b.toLowerCase())), z.threshold, z.windowMs, z.createdAtMs);
+}
+
+export function deleteZone(zoneId: string): boolean {
+  return Number(getDb().prepare("DELETE FROM zones WHERE zone_id = ?").run(zoneId).changes) > 0;
+}
+
+// The largest set of verified beacons whose signed timestamps fit in one
+// window. Callers pass at most one proof per beacon.
+export function bestQuorum(zone: Zone, verified: { beaconIdHex: string; tsMs: number }[]): string[] {
+  const sorted = [...verified].sort((a, b) => a.tsMs - b.tsMs);
+  let best: typeof sorted = [];
+  let start = 0;
+  for (let end = 0; end < sorted.length; end++) {
+    while (sorted[end].tsMs - sorted[start].tsMs > zone.windowMs) start++;
+    if (end - start + 1 > best.length) best = sorted.slice(start, end + 1);
+  }
+  return best.map(v => v.beaconIdHex.toLowerCase());
+}
@@ -1,263 +1,325 @@
 /// <reference types="vite/client" />
 /// <reference types="web-bluetooth" />
 
-import React, { useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { Link, Navigate, Route, Routes, useNavigate, useParams } from "react-router-dom";
+import {
+  ApiError, bytesToHex, decodeSignResponse, hexToBytes, MSG_VERSIONS,
+  type MsgVersion, type PresenceSession, type Proof, type PublicBeacon, type PublicZone, type ZoneVerifyResponse,
+} from "@spacescrypt/protocol";
+import { API, api } from "./config";
+import { IconCheck, IconX, IconLink, Spinner, FieldRow, StatusPill, Dot, Card } from "./components/ui";
+import AdminLayout from "./admin/AdminLayout";
+import BeaconsPage from "./admin/BeaconsPage";
+import HistoryPage from "./admin/HistoryPage";
+import ChartsPage from "./admin/ChartsPage";
+import LivePage from "./admin/LivePage";
 
 // ====== Config ======
-const API = import.meta.env.VITE_API_BASE || "http://localhost:8787";
 const SERVICE_UUID    = import.meta.env.VITE_SERVICE_UUID!;
 const ID_CHAR_UUID    = import.meta.env.VITE_ID_CHAR_UUID!;
 const SIGN_NONCE_UUID = import.meta.env.VITE_SIGN_NONCE_UUID!;
 const SIGN_RESP_UUID  = import.meta.env.VITE_SIGN_RESP_UUID!;
+// Optional read-only characteristic: 1 byte, the signed message format the beacon speaks
+const MSG_VERSION_UUID = import.meta.env.VITE_MSG_VERSION_UUID as string | undefined;
 
 // ====== Utils ======
-function bytesToHex(b: ArrayBuffer | Uint8Array): string {
-  const u8 = b instanceof Uint8Array ? b : new Uint8Array(b);
-  return Array.from(u8).map(x => x.toString(16).padStart(2, "0")).join("");
+// API failures the route does not answer as a verdict (rate limits, 5xx, ...)
+function errorText(e: unknown): string {
+  if (e instanceof ApiError) return `${e.code} (${e.status})`;
+  return e instanceof Error ? e.message : String(e);
 }
-function hexToBytes(hex: string): Uint8Array {
-  if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length % 2) throw new Error("bad hex");
-  const out = new Uint8Array(hex.length / 2);
-  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i*2, i*2+2), 16);
-  return out;
+
+function downloadJson(filename: string, data: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
 }
-function be64ToMs(buf: ArrayBuffer | Uint8Array): number {
-  const u8 = buf instanceof Uint8Array ? buf : new Uint8Array(buf);
-  if (u8.length !== 8) throw new Error("ts must be 8 bytes");
-  let n = 0n;
-  for (let i = 0; i < 8; i++) n = (n << 8n) | BigInt(u8[i]);
-  return Number(n);
+
+// Beacons without the version characteristic predate v2 and speak v1
+async function readMsgVersion(svc: BluetoothRemoteGATTService): Promise<MsgVersion> {
+  let version = 1;
+  if (MSG_VERSION_UUID) {
+    try {
+      const verChar = await svc.getCharacteristic(MSG_VERSION_UUID);
+      version = (await verChar.readValue()).getUint8(0);
+    } catch {
+      version = 1;
+    }
+  }
+  if (!(MSG_VERSIONS as readonly number[]).includes(version)) throw new Error(`Beacon speaks unsupported message version ${version}`);
+  return version as MsgVersion;
 }
 
 // ====== Types ======
 type Conn = {
-  idChar: BluetoothRemoteGATTCharacteristic;
+  device: BluetoothDevice;
+  beaconIdHex: string;
+  msgVersion: MsgVersion;
   signNonceChar: BluetoothRemoteGATTCharacteristic;
   signRespChar: BluetoothRemoteGATTCharacteristic;
-  device?: BluetoothDevice;
 };
 
-type FieldRowProps = {
-  label: string;
-  value: string;
-  mono?: boolean;
-  copy?: boolean;
-};
+// ====== Beacon link ======
+// Re-challenge interval in stay-checked-in mode; the API closes a session
+// after PRESENCE_LAPSE_MS (90 s by default) without one
+const HEARTBEAT_MS = 30_000;
+const RECONNECT_MAX_MS = 30_000;
+// Last beacon used, listed first among the remembered devices
+const LAST_DEVICE_KEY = "spacescrypt.lastBeaconDevice";
 
-// ====== UI Subcomponents ======
-function IconCheck(props: React.SVGProps<SVGSVGElement>) {
-  return (
-    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" {...props}>
-      <path d="M20 6L9 17l-5-5"/>
-    </svg>
-  );
-}
-function IconX(props: React.SVGProps<SVGSVGElement>) {
-  return (
-    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" {...props}>
-      <path d="M18 6L6 18M6 6l12 12"/>
-    </svg>
-  );
-}
-function IconLink(props: React.SVGProps<SVGSVGElement>) {
-  return (
-    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" {...props}>
-      <path d="M10 13a5 5 0 007.07 0l1.41-1.41a5 5 0 00-7.07-7.07L10 5"/>
-      <path d="M14 11a5 5 0 00-7.07 0L5.5 12.43a5 5 0 007.07 7.07L14 19"/>
-    </svg>
-  );
-}
-function Spinner({ className = "" }: { className?: string }) {
-  return (
-    <div className={`inline-block h-5 w-5 animate-spin rounded-full border-2 border-current border-t-transparent ${className}`} />
-  );
-}
-function CopyButton({ text, className = "" }: { text: string; className?: string }) {
-  const [copied, setCopied] = useState(false);
-  return (
-    <button
-      onClick={async () => {
-        try {
-          await navigator.clipboard.writeText(text);
-          setCopied(true);
-          setTimeout(() => setCopied(false), 1200);
-        } catch {}
-      }}
-      className={`text-xs px-2 py-1 rounded-md border border-zinc-300/60 hover:bg-zinc-50 active:scale-[0.98] transition ${className}`}
-    >
-      {copied ? "Copied" : "Copy"}
-    </button>
-  );
-}
-function FieldRow({ label, value, mono, copy }: FieldRowProps) {
-  return (
-    <div className="grid grid-cols-3 gap-3 py-2 items-start">
-      <div className="col-span-1 text-sm text-zinc-500 select-none">{label}</div>
-      <div className="col-span-2 flex items-center gap-2">
-        <div className={`min-h-[24px] break-all ${mono ? "font-mono text-[13px]" : ""}`}>{value || "—"}</div>
-        {copy && value && <CopyButton text={value} />}
-      </div>
-    </div>
-  );
+// Opens the GATT link and reads the beacon's id and message format
+async function openConn(device: BluetoothDevice): Promise<Conn> {
+  const server = await device.gatt!.connect();
+  const svc = await server.getPrimaryService(SERVICE_UUID);
+  const msgVersion = await readMsgVersion(svc);
+  const idChar = await svc.getCharacteristic(ID_CHAR_UUID);
+  const idVal = await idChar.readValue();
+  const beaconIdHex = bytesToHex(new Uint8Array(idVal.buffer, idVal.byteOffset, idVal.byteLength)).toLowerCase();
+  const signNonceChar = await svc.getCharacteristic(SIGN_NONCE_UUID);
+  const signRespChar = await svc.getCharacteristic(SIGN_RESP_UUID);
+  await signRespChar.startNotifications();
+  return { device, beaconIdHex, msgVersion, signNonceChar, signRespChar };
 }
-function StatusPill({ state }: { state: "idle" | "ok" | "bad" | "loading" }) {
-  const map: Record<string, string> = {
-    idle: "bg-zinc-100 text-zinc-700",
-    ok: "bg-emerald-100 text-emerald-700",
-    bad: "bg-rose-100 text-rose-700",
-    loading: "bg-indigo-100 text-indigo-700",
-  };
-  const label = state === "idle" ? "—" : state === "ok" ? "Verified" : state === "bad" ? "Not verified" : "Verifying";
-  return (
-    <span className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-medium ${map[state]}`}>
-      {state === "ok" && <IconCheck className="h-4 w-4" />}
-      {state === "bad" && <IconX className="h-4 w-4" />}
-      {state === "loading" && <Spinner className="h-4 w-4 border-[2px]" />}
-      {label}
-    </span>
-  );
+
+// Has the beacon sign one nonce: write it, then wait for the notification.
+// decodeSignResponse takes both reply layouts (raw r || s or DER) and hands
+// back the 64-byte signature the API expects.
+async function signNonce(c: Conn, nonceHex: string): Promise<{ tsMs: string; sigHex: string }> {
+  const raw = await new Promise<Uint8Array>((resolve, reject) => {
+    const onValue = (ev: Event) => {
+      clearTimeout(timer);
+      const dv = (ev.target as BluetoothRemoteGATTCharacteristic).value as DataView;
+      resolve(new Uint8Array(dv.buffer, dv.byteOffset, dv.byteLength));
+    };
+    const timer = setTimeout(() => {
+      c.signRespChar.removeEventListener("characteristicvaluechanged", onValue);
+      reject(new Error(`Beacon ${c.beaconIdHex} did not answer`));
+    }, 10_000);
+    c.signRespChar.addEventListener("characteristicvaluechanged", onValue, { once: true });
+    c.signNonceChar.writeValueWithoutResponse(Uint8Array.from(hexToBytes(nonceHex))).catch(reject);
+  });
+  const { tsMs, sig } = decodeSignResponse(raw);
+  return { tsMs, sigHex: bytesToHex(sig) };
 }
 
-function Dot({ className = "" }: { className?: string }) {
-  return <div className={`h-2 w-2 rounded-full ${className}`} />;
+function formatDuration(ms: number): string {
+  const s = Math.floor(ms / 1000);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  return h ? `${h} h ${m} min` : m ? `${m} min ${s % 60} s` : `${s} s`;
 }
 
-export default function App() {
+function PresencePage() {
   // ====== State ======
   const [supported, setSupported] = useState(false);
   const [deviceName, setDeviceName] = useState<string>("");
   const [beaconIdHex, setBeaconIdHex] = useState("");
+  const [beaconInfo, setBeaconInfo] = useState<PublicBeacon | null>(null);
   const [nonceHex, setNonceHex] = useState("");
+  const [nonceSource, setNonceSource] = useState("");
+  const [msgVersion, setMsgVersion] = useState(0);
   const [tsMs, setTsMs] = useState("");
   const [sigHex, setSigHex] = useState("");
   const [verified, setVerified] = useState<null | boolean>(null);
+  const [attestation, setAttestation] = useState("");
   const [err, setErr] = useState("");
   const [connecting, setConnecting] = useState(false);
   const [verifying, setVerifying] = useState(false);
+  const [link, setLink] = useState<"down" | "up" | "reconnecting">("down");
+  const [knownDevices, setKnownDevices] = useState<BluetoothDevice[]>([]);
+  const [stay, setStay] = useState(false);
+  const [session, setSession] = useState<PresenceSession | null>(null);
 
   const conn = useRef<Conn | null>(null);
-  const notifyAttached = useRef(false);
-  const nonceRef = useRef<string>("");
+  // The chosen device outlives its GATT link so a drop can be reconnected
+  const device = useRef<BluetoothDevice | null>(null);
+  const userDisconnected = useRef(false);
+  const reconnectTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const inFlight = useRef(false);
+  const presenceId = useRef("");
 
   useEffect(() => setSupported(!!navigator.bluetooth), []);
 
+  // Beacons this site was allowed to use before can be reopened without the
+  // chooser (Chrome's getDevices; missing elsewhere)
+  useEffect(() => {
+    navigator.bluetooth?.getDevices?.()
+      .then(ds => {
+        const last = localStorage.getItem(LAST_DEVICE_KEY);
+        setKnownDevices(ds.sort((a, b) => Number(b.id === last) - Number(a.id === last)));
+      })
+      .catch(() => setKnownDevices([]));
+  }, []);
+
+  useEffect(() => () => {
+    userDisconnected.current = true;
+    clearTimeout(reconnectTimer.current);
+    device.current?.gatt?.disconnect();
+  }, []);
+
   // ====== Actions ======
-  async function connectBeacon() {
+  async function linkUp(d: BluetoothDevice) {
+    const c = await openConn(d);
+    conn.current = c;
+    setLink("up");
+    setMsgVersion(c.msgVersion);
+    setDeviceName(d.name || "Unknown device");
+    setBeaconIdHex(c.beaconIdHex);
+    localStorage.setItem(LAST_DEVICE_KEY, d.id);
+
+    // Directory metadata is cosmetic; an unregistered beacon still connects
+    setBeaconInfo(await api.beacon(c.beaconIdHex).catch(() => null));
+  }
+
+  // Called by the browser whenever the GATT link drops. Unless the user
+  // disconnected, keep the beacon and retry with backoff; stay-checked-in
+  // resumes by itself once the link is back.
+  function onLinkLost() {
+    conn.current = null;
+    if (userDisconnected.current) return;
+    setLink("reconnecting");
+    const retry = (delayMs: number) => {
+      reconnectTimer.current = setTimeout(async () => {
+        const d = device.current;
+        if (!d || userDisconnected.current) return;
+        try {
+          await linkUp(d);
+          setErr("");
+        } catch {
+          retry(Math.min(delayMs * 2, RECONNECT_MAX_MS));
+        }
+      }, delayMs);
+    };
+    retry(1000);
+  }
+
+  async function connectBeacon(known?: BluetoothDevice) {
     try {
       setErr(""); setVerified(null); setConnecting(true);
       if (!navigator.bluetooth) throw new Error("Web Bluetooth not supported in this browser");
-      const device = await navigator.bluetooth.requestDevice({
+      const d = known ?? await navigator.bluetooth.requestDevice({
         // acceptAllDevices: true,
         filters: [{ services: [SERVICE_UUID] }]
       });
-      const server = await device.gatt!.connect();
-      const svc = await server.getPrimaryService(SERVICE_UUID);
-      const idChar = await svc.getCharacteristic(ID_CHAR_UUID);
-      const signNonceChar = await svc.getCharacteristic(SIGN_NONCE_UUID);
-      const signRespChar = await svc.getCharacteristic(SIGN_RESP_UUID);
-      conn.current = { idChar, signNonceChar, signRespChar, device };
-      setDeviceName(device.name || "Unknown device");
-
-      // Read 8-byte Beacon ID
-      const idVal = await idChar.readValue();
-      setBeaconIdHex(bytesToHex(idVal.buffer).toLowerCase());
-    } catch (e: any) {
-      setErr(e?.message || String(e));
+      userDisconnected.current = false;
+      device.current = d;
+      d.ongattserverdisconnected = onLinkLost;
+      await linkUp(d);
+      if (!knownDevices.some(k => k.id === d.id)) setKnownDevices(ks => [d, ...ks]);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : String(e));
     } finally {
       setConnecting(false);
     }
   }
 
-  async function disconnectBeacon() {
-    try {
-      const d = conn.current?.device;
-      if (d?.gatt?.connected) d.gatt.disconnect();
-      conn.current = null;
-      notifyAttached.current = false;
-      setDeviceName("");
-      setBeaconIdHex("");
-      setVerified(null);
-      setNonceHex("");
-      setTsMs("");
-      setSigHex("");
-      setErr("");
-    } catch {}
+  function disconnectBeacon() {
+    userDisconnected.current = true;
+    clearTimeout(reconnectTimer.current);
+    const d = device.current;
+    device.current = null;
+    conn.current = null;
+    if (d?.gatt?.connected) d.gatt.disconnect();
+    setLink("down");
+    setStay(false);
+    setSession(null);
+    setDeviceName("");
+    setBeaconIdHex("");
+    setBeaconInfo(null);
+    setMsgVersion(0);
+    setVerified(null);
+    setNonceHex("");
+    setNonceSource("");
+    setTsMs("");
+    setSigHex("");
+    setAttestation("");
+    setErr("");
   }
 
-  async function verifyPresence() {
+  // One challenge: fetch a nonce, have the beacon sign it, verify. With a
+  // presenceId the verification is also a heartbeat for that session.
+  async function challenge(presence?: string) {
+    const c = conn.current;
+    if (!c || inFlight.current) return;
+    inFlight.current = true;
     try {
-      setErr("");
-      setVerified(null);
-      setTsMs("");
-      setSigHex("");
-      setVerifying(true);
-      if (!conn.current) throw new Error("Not connected to a beacon yet");
-  
-      const r = await fetch(`${API}/api/nonce`);
-      if (!r.ok) throw new Error(`nonce failed: ${r.status}`);
-      const { nonceHex } = await r.json();
+      setErr(""); setVerifying(true);
+      const { nonceHex, source } = await api.nonce({ beaconIdHex: c.beaconIdHex });
       setNonceHex(nonceHex);
-      nonceRef.current = nonceHex; // <-- critical
-  
-      if (!notifyAttached.current) {
-        await conn.current.signRespChar.startNotifications();
-        conn.current.signRespChar.addEventListener("characteristicvaluechanged", onNotify as any);
-        notifyAttached.current = true;
+      setNonceSource(source);
+      setTsMs(""); setSigHex("");
+
+      const signed = await signNonce(c, nonceHex);
+      setTsMs(signed.tsMs);
+      setSigHex(signed.sigHex);
+
+      const json = await api.verify({
+        beaconIdHex: c.beaconIdHex,
+        nonceHex,
+        ...signed,
+        // v2 signatures also cover the beacon id; the server rebuilds that message
+        ...(c.msgVersion === 2 && { msgVersion: 2 }),
+        ...(presence && { presenceId: presence }),
+      });
+      setVerified(json.ok);
+      if (json.ok) {
+        setAttestation(json.attestation);
+        if (json.session) setSession(json.session);
+      } else {
+        setAttestation("");
+        setErr(json.error);
       }
-  
-      await conn.current.signNonceChar.writeValueWithoutResponse(hexToBytes(nonceRef.current));
-    } catch (e: any) {
-      setErr(e?.message || String(e));
+    } catch (e) {
+      setErr(errorText(e));
+    } finally {
+      inFlight.current = false;
       setVerifying(false);
     }
-  }  
+  }
 
-  async function onNotify(ev: Event) {
+  function verifyPresence() {
+    setVerified(null);
+    setAttestation("");
+    challenge();
+  }
+
+  // The proof, its key and the server's verdict in one file that
+  // `npm run cli -- verify-bundle` re-checks without the API
+  async function downloadBundle() {
     try {
-      const char = ev.target as BluetoothRemoteGATTCharacteristic;
-      const dv = char.value as DataView;
-      const raw = new Uint8Array(dv.buffer);
-      if (raw.length !== 72) { setErr(`Expected 72B, got ${raw.length}`); setVerifying(false); return; }
-  
-      const tsBytes = raw.slice(0, 8);
-      const sigBytes = raw.slice(8);
-      const ms = be64ToMs(tsBytes);
-      const sig = bytesToHex(sigBytes);
-  
-      setTsMs(String(ms));
-      setSigHex(sig);
-  
-      // Guard: make sure nonce is present and 32 hex chars
-      if (!nonceRef.current || nonceRef.current.length !== 32) {
-        setErr(`Nonce not ready (len=${nonceRef.current?.length || 0}) — press Verify again`);
-        setVerifying(false);
-        return;
-      }
-  
-      const payload = {
-        beaconIdHex,
-        nonceHex: nonceRef.current,
-        tsMs: String(ms),
-        sigHex: sig,
-      };
-  
-      const res = await fetch(`${API}/api/verify`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-      const json = await res.json();
-      setVerified(!!json.ok);
-      if (!json.ok && json.error) setErr(json.error);
-    } catch (e: any) {
-      setErr(e?.message || String(e));
-    } finally {
-      setVerifying(false);
+      const bundle = await api.proofBundle(attestation);
+      downloadJson(`proof-${bundle.proof.beaconIdHex}-${bundle.proof.nonceHex}.json`, bundle);
+    } catch (e) {
+      setErr(errorText(e));
+    }
+  }
+
+  // A fresh presenceId per run, so each run is its own attendance session
+  function toggleStay() {
+    if (!stay) {
+      presenceId.current = bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+      setSession(null);
     }
+    setStay(!stay);
   }
-  
+
+  // Heartbeats run while stay-checked-in is on and the link is up; after a
+  // drop they pause and restart on reconnect
+  const challengeRef = useRef(challenge);
+  useEffect(() => { challengeRef.current = challenge; });
+  useEffect(() => {
+    if (!stay || link !== "up") return;
+    challengeRef.current(presenceId.current);
+    const t = setInterval(() => challengeRef.current(presenceId.current), HEARTBEAT_MS);
+    return () => clearInterval(t);
+  }, [stay, link]);
 
   const verifiedState: "idle" | "ok" | "bad" | "loading" = verifying ? "loading" : verified === null ? "idle" : verified ? "ok" : "bad";
+  // A dropped link keeps the beacon until the user disconnects
   const connected = !!beaconIdHex;
 
   // ====== Render ======
@@ -281,6 +343,8 @@ export default function App() {
           <div className="flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
             <Dot className={supported ? "bg-emerald-500" : "bg-rose-500"} />
             {supported ? "Web Bluetooth available" : "Not supported"}
+            <Link to="/zone" className="ml-3 rounded-md px-2 py-1 hover:bg-zinc-100 dark:hover:bg-zinc-800">Zone check-in</Link>
+            <Link to="/admin" className="rounded-md px-2 py-1 hover:bg-zinc-100 dark:hover:bg-zinc-800">Admin</Link>
           </div>
         </div>
       </header>
@@ -300,24 +364,50 @@ export default function App() {
             {/* Actions */}
             <div className="flex flex-wrap items-center gap-3">
               {!connected ? (
-                <button
-                  onClick={connectBeacon}
-                  disabled={!supported || connecting}
-                  className="inline-flex items-center gap-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-4 py-2 text-sm font-medium shadow-sm hover:bg-zinc-50 dark:hover:bg-zinc-800 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {connecting ? <Spinner /> : <IconLink className="h-5 w-5" />}
-                  {connecting ? "Connecting…" : "Connect Beacon"}
-                </button>
+                <div className="flex flex-wrap items-center gap-3">
+                  <button
+                    onClick={() => connectBeacon()}
+                    disabled={!supported || connecting}
+                    className="inline-flex items-center gap-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-4 py-2 text-sm font-medium shadow-sm hover:bg-zinc-50 dark:hover:bg-zinc-800 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {connecting ? <Spinner /> : <IconLink className="h-5 w-5" />}
+                    {connecting ? "Connecting…" : "Connect Beacon"}
+                  </button>
+                  {knownDevices.map(d => (
+                    <button
+                      key={d.id}
+                      onClick={() => connectBeacon(d)}
+                      disabled={connecting}
+                      className="rounded-xl border border-zinc-300 dark:border-zinc-700 px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                    >
+                      {d.name || "Beacon"}
+                    </button>
+                  ))}
+                </div>
               ) : (
                 <div className="flex items-center gap-3">
                   <button
                     onClick={verifyPresence}
-                    disabled={verifying}
+                    disabled={verifying || stay || link !== "up"}
                     className="inline-flex items-center gap-2 rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {verifying ? <Spinner className="border-white" /> : <IconCheck className="h-5 w-5" />}
                     {verifying ? "Verifying…" : "Verify Presence"}
                   </button>
+                  <button
+                    onClick={toggleStay}
+                    className={`inline-flex items-center gap-2 rounded-xl px-4 py-2 text-sm font-medium ${stay ? "bg-emerald-600 text-white hover:bg-emerald-700" : "border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800"}`}
+                  >
+                    {stay ? "Staying checked in — stop" : "Stay checked in"}
+                  </button>
+                  {attestation && (
+                    <button
+                      onClick={downloadBundle}
+                      className="inline-flex items-center gap-2 rounded-xl border border-zinc-300 dark:border-zinc-700 px-4 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                    >
+                      Proof bundle
+                    </button>
+                  )}
                   <button
                     onClick={disconnectBeacon}
                     className="inline-flex items-center gap-2 rounded-xl border border-zinc-300 dark:border-zinc-700 px-4 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800"
@@ -332,9 +422,19 @@ export default function App() {
 
             {/* Device status */}
             <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-gradient-to-br from-white/60 to-zinc-50/60 dark:from-zinc-900/50 dark:to-zinc-900/40 p-4 flex items-center gap-3">
-              <Dot className={connected ? "bg-emerald-500" : "bg-zinc-300 dark:bg-zinc-700"} />
+              <Dot className={link === "up" ? "bg-emerald-500" : link === "reconnecting" ? "bg-amber-500" : "bg-zinc-300 dark:bg-zinc-700"} />
               <div className="text-sm">
-                {connected ? (
+                {link === "reconnecting" ? (
+                  <span className="font-medium text-amber-700 dark:text-amber-400">Link to {beaconInfo?.label || deviceName || "beacon"} lost — reconnecting…</span>
+                ) : connected && beaconInfo?.label ? (
+                  <>
+                    <span className="font-medium">Connected to {beaconInfo.label}</span>
+                    {beaconInfo.site && <span className="text-zinc-500 dark:text-zinc-400"> ({beaconInfo.site})</span>}
+                    {beaconInfo.status !== "active" && (
+                      <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">{beaconInfo.status}</span>
+                    )}
+                  </>
+                ) : connected ? (
                   <>
                     <span className="font-medium">Connected</span>
                     <span className="text-zinc-500 dark:text-zinc-400"> — {deviceName || "Beacon"}</span>
@@ -348,9 +448,16 @@ export default function App() {
             {/* Data */}
             <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 p-4 bg-zinc-50/60 dark:bg-zinc-900/40">
               <FieldRow label="Beacon ID" value={beaconIdHex || ""} mono copy />
+              <FieldRow label="Message format" value={msgVersion ? `v${msgVersion}` : ""} />
               <FieldRow label="Nonce" value={nonceHex || ""} mono copy />
+              <FieldRow label="Nonce source" value={nonceSource} />
               <FieldRow label="Timestamp (ms)" value={tsMs || ""} mono copy />
               <FieldRow label="Signature (hex)" value={sigHex || ""} mono copy />
+              <FieldRow label="Attestation" value={attestation} mono copy />
+              <FieldRow
+                label="Presence session"
+                value={session ? `#${session.sessionId} · ${formatDuration(session.lastSeenAtMs - session.startedAtMs)} · ${session.heartbeats} heartbeat${session.heartbeats === 1 ? "" : "s"}` : ""}
+              />
               <div className="grid grid-cols-3 gap-3 py-2 items-start">
                 <div className="col-span-1 text-sm text-zinc-500 select-none">Verified</div>
                 <div className="col-span-2">
@@ -394,3 +501,209 @@ export default function App() {
     </div>
   );
 }
+
+// ====== Zone check-in (K-of-N beacons) ======
+
+function randomSessionHex(): string {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// One beacon start to finish: connect, read its id, have it sign a nonce
+// issued for the session, disconnect. `skip` holds beacons already collected.
+async function collectZoneProof(zone: PublicZone, sessionHex: string, skip: string[]): Promise<Proof> {
+  if (!navigator.bluetooth) throw new Error("Web Bluetooth not supported in this browser");
+  const device = await navigator.bluetooth.requestDevice({ filters: [{ services: [SERVICE_UUID] }] });
+  try {
+    const c = await openConn(device);
+    const id = c.beaconIdHex;
+    if (!zone.beacons.includes(id)) throw new Error(`Beacon ${id} is not part of ${zone.name}`);
+    if (skip.includes(id)) throw new Error(`Already signed by ${id}; connect another beacon of the zone`);
+
+    const { nonceHex } = await api.nonce({ beaconIdHex: id, sessionHex });
+    return {
+      beaconIdHex: id,
+      nonceHex,
+      ...(await signNonce(c, nonceHex)),
+      ...(c.msgVersion === 2 && { msgVersion: 2 as const }),
+    };
+  } finally {
+    if (device.gatt?.connected) device.gatt.disconnect();
+  }
+}
+
+function ZonePage() {
+  const { zoneId = "" } = useParams();
+  const navigate = useNavigate();
+  const [zoneInput, setZoneInput] = useState(zoneId);
+  const [zone, setZone] = useState<PublicZone | null>(null);
+  const [sessionHex, setSessionHex] = useState(randomSessionHex);
+  const [proofs, setProofs] = useState<Proof[]>([]);
+  const [result, setResult] = useState<ZoneVerifyResponse | null>(null);
+  const [busy, setBusy] = useState<"" | "connecting" | "submitting">("");
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    if (!zoneId) return;
+    let cancelled = false;
+    setZone(null);
+    setErr("");
+    api.zone(zoneId)
+      .then(z => {
+        if (!z) throw new Error(`Unknown zone ${zoneId}`);
+        if (!cancelled) setZone(z);
+      })
+      .catch(e => { if (!cancelled) setErr(errorText(e)); });
+    return () => { cancelled = true; };
+  }, [zoneId]);
+
+  // Nonces are single-use, so a new attempt needs a fresh session
+  function startOver() {
+    setSessionHex(randomSessionHex());
+    setProofs([]);
+    setResult(null);
+    setErr("");
+  }
+
+  async function addBeacon() {
+    if (!zone) return;
+    try {
+      setErr(""); setBusy("connecting");
+      const p = await collectZoneProof(zone, sessionHex, proofs.map(x => x.beaconIdHex));
+      setProofs(ps => [...ps, p]);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy("");
+    }
+  }
+
+  async function checkIn() {
+    try {
+      setErr(""); setBusy("submitting");
+      const json = await api.verifyZone(zoneId, { sessionHex, proofs });
+      setResult(json);
+      if (!json.ok) setErr(json.error);
+    } catch (e) {
+      setErr(errorText(e));
+    } finally {
+      setBusy("");
+    }
+  }
+
+  const state: "idle" | "ok" | "bad" | "loading" =
+    busy === "submitting" ? "loading" : result === null ? "idle" : result.ok ? "ok" : "bad";
+  const done = result !== null;
+  // A schema failure (bad_request) carries no per-beacon outcome
+  const outcome = result && "results" in result ? result : null;
+
+  return (
+    <div className="relative min-h-screen flex flex-col bg-zinc-50 text-zinc-900 dark:bg-zinc-950 dark:text-zinc-100">
+      <header className="sticky top-0 z-10 backdrop-blur supports-[backdrop-filter]:bg-white/60 bg-white/80 dark:supports-[backdrop-filter]:bg-zinc-900/60 dark:bg-zinc-900/80 border-b border-zinc-200 dark:border-zinc-800">
+        <div className="mx-auto max-w-none px-4 py-3 flex items-center justify-between">
+          <Link to="/" className="flex items-center gap-2">
+            <div className="h-9 w-9 rounded-xl bg-gradient-to-tr from-indigo-500 to-emerald-500 grid place-items-center text-white shadow">
+              <IconLink className="h-5 w-5" />
+            </div>
+            <h1 className="text-lg font-semibold tracking-tight">Zone Check-in</h1>
+          </Link>
+          <div className="text-xs text-zinc-500 dark:text-zinc-400">API: <span className="font-mono">{API}</span></div>
+        </div>
+      </header>
+
+      <main className="relative mx-auto max-w-3xl px-4 py-8 w-full space-y-6">
+        <form
+          onSubmit={e => { e.preventDefault(); startOver(); navigate(`/zone/${zoneInput.trim()}`); }}
+          className="flex items-center gap-3"
+        >
+          <input
+            value={zoneInput}
+            onChange={e => setZoneInput(e.target.value)}
+            placeholder="Zone id, e.g. room-204"
+            className="flex-1 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-3 py-2 text-sm"
+          />
+          <button type="submit" disabled={!zoneInput.trim()} className="rounded-xl border border-zinc-300 dark:border-zinc-700 px-4 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50">
+            Open
+          </button>
+        </form>
+
+        {zone && (
+          <Card
+            title={zone.name}
+            subtitle={`Connect ${zone.threshold} of its ${zone.beacons.length} beacons, one after another, within ${Math.round(zone.windowMs / 1000)} s.`}
+            actions={<StatusPill state={state} />}
+          >
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={addBeacon}
+                  disabled={!!busy || done || proofs.length >= zone.beacons.length}
+                  className="inline-flex items-center gap-2 rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-4 py-2 text-sm font-medium shadow-sm hover:bg-zinc-50 dark:hover:bg-zinc-800 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {busy === "connecting" ? <Spinner /> : <IconLink className="h-5 w-5" />}
+                  {busy === "connecting" ? "Waiting for beacon…" : proofs.length ? "Add next beacon" : "Connect first beacon"}
+                </button>
+                <button
+                  onClick={checkIn}
+                  disabled={!!busy || done || proofs.length < zone.threshold}
+                  className="inline-flex items-center gap-2 rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {busy === "submitting" ? <Spinner className="border-white" /> : <IconCheck className="h-5 w-5" />}
+                  Check in ({proofs.length}/{zone.threshold})
+                </button>
+                <button onClick={startOver} disabled={!!busy} className="ml-auto rounded-xl border border-zinc-300 dark:border-zinc-700 px-4 py-2 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50">
+                  Start over
+                </button>
+              </div>
+
+              <ul className="rounded-xl border border-zinc-200 dark:border-zinc-800 divide-y divide-zinc-100 dark:divide-zinc-800">
+                {zone.beacons.map(id => {
+                  const collected = proofs.some(p => p.beaconIdHex === id);
+                  const verdict = outcome?.results.find(r => r.beaconIdHex === id);
+                  return (
+                    <li key={id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                      <Dot className={verdict ? (verdict.ok ? "bg-emerald-500" : "bg-rose-500") : collected ? "bg-indigo-500" : "bg-zinc-300 dark:bg-zinc-700"} />
+                      <span className="font-mono text-[13px]">{id}</span>
+                      <span className="ml-auto text-zinc-500">
+                        {verdict ? (verdict.ok ? "verified" : verdict.error) : collected ? "signed" : "not yet"}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 p-4 bg-zinc-50/60 dark:bg-zinc-900/40">
+                <FieldRow label="Session" value={sessionHex} mono copy />
+                <FieldRow label="Quorum" value={outcome?.beacons.join(", ") ?? ""} mono />
+                <FieldRow label="Attestation" value={result?.ok ? result.attestation : ""} mono copy />
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {err && (
+          <div className="rounded-xl border border-rose-200 dark:border-rose-900/50 bg-rose-50 dark:bg-rose-950/40 p-4">
+            <div className="font-semibold text-rose-800 dark:text-rose-300">Error</div>
+            <p className="text-sm text-rose-700 dark:text-rose-400 mt-1">{err}</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function App() {
+  return (
+    <Routes>
+      <Route path="/" element={<PresencePage />} />
+      <Route path="/zone/:zoneId?" element={<ZonePage />} />
+      <Route path="/admin" element={<AdminLayout />}>
+        <Route index element={<Navigate to="beacons" replace />} />
+        <Route path="beacons" element={<BeaconsPage />} />
+        <Route path="history" element={<HistoryPage />} />
+        <Route path="charts" element={<ChartsPage />} />
+        <Route path="live" element={<LivePage />} />
+      </Route>
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+  );
+}
@@ -0,0 +1,117 @@
+import { useCallback, useState, type FormEvent } from "react";
+import { Link, NavLink, Outlet } from "react-router-dom";
+import { API } from "../config";
+import { IconLink, Spinner } from "../components/ui";
+import { adminFetch, loadAdminToken, saveAdminToken, type AdminContext } from "./api";
+
+const NAV = [
+  { to: "beacons", label: "Beacons" },
+  { to: "history", label: "History" },
+  { to: "charts", label: "Charts" },
+  { to: "live", label: "Live" },
+];
+
+export default function AdminLayout() {
+  const [token, setToken] = useState(loadAdminToken);
+
+  const signOut = useCallback(() => {
+    saveAdminToken("");
+    setToken("");
+  }, []);
+
+  function signIn(t: string) {
+    saveAdminToken(t);
+    setToken(t);
+  }
+
+  const ctx: AdminContext = { token, signOut };
+
+  return (
+    <div className="relative min-h-screen flex flex-col bg-zinc-50 text-zinc-900 dark:bg-zinc-950 dark:text-zinc-100">
+      {/* Header */}
+      <header className="sticky top-0 z-10 backdrop-blur supports-[backdrop-filter]:bg-white/60 bg-white/80 dark:supports-[backdrop-filter]:bg-zinc-900/60 dark:bg-zinc-900/80 border-b border-zinc-200 dark:border-zinc-800">
+        <div className="mx-auto max-w-none px-4 py-3 flex flex-wrap items-center gap-4">
+          <Link to="/" className="flex items-center gap-2">
+            <div className="h-9 w-9 rounded-xl bg-gradient-to-tr from-indigo-500 to-emerald-500 grid place-items-center text-white shadow">
+              <IconLink className="h-5 w-5" />
+            </div>
+            <h1 className="text-lg font-semibold tracking-tight">Beacon Admin</h1>
+          </Link>
+          {token && (
+            <nav className="flex items-center gap-1 text-sm">
+              {NAV.map(n => (
+                <NavLink
+                  key={n.to}
+                  to={n.to}
+                  className={({ isActive }) =>
+                    `rounded-lg px-3 py-1.5 font-medium ${isActive ? "bg-indigo-600 text-white" : "text-zinc-600 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-zinc-800"}`
+                  }
+                >
+                  {n.label}
+                </NavLink>
+              ))}
+            </nav>
+          )}
+          <div className="ml-auto flex items-center gap-3 text-xs text-zinc-500 dark:text-zinc-400">
+            <span>API: <span className="font-mono">{API}</span></span>
+            {token && (
+              <button onClick={signOut} className="rounded-md border border-zinc-300 dark:border-zinc-700 px-2 py-1 hover:bg-zinc-50 dark:hover:bg-zinc-800">
+                Sign out
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="relative mx-auto max-w-none px-4 py-8 flex-1 w-full">
+        {token ? <Outlet context={ctx} /> : <SignIn onSignIn={signIn} />}
+      </main>
+    </div>
+  );
+}
+
+// Checks the token against an admin route before keeping it
+function SignIn({ onSignIn }: { onSignIn: (token: string) => void }) {
+  const [value, setValue] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    try {
+      setErr(""); setChecking(true);
+      await adminFetch(value, "/api/admin/beacons");
+      onSignIn(value);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="mx-auto max-w-md rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white/80 dark:bg-zinc-900/70 shadow-xl shadow-zinc-800/5 p-6 space-y-4">
+      <div>
+        <h2 className="text-base font-semibold">Admin sign-in</h2>
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">Enter the API's admin token. It is kept for this browser tab only.</p>
+      </div>
+      <input
+        type="password"
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        placeholder="ADMIN_TOKEN"
+        autoComplete="current-password"
+        className="w-full rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-3 py-2 font-mono text-sm"
+      />
+      <button
+        type="submit"
+        disabled={!value || checking}
+        className="inline-flex items-center gap-2 rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {checking && <Spinner className="border-white" />}
+        {checking ? "Checking…" : "Sign in"}
+      </button>
+      {err && <p className="text-sm text-rose-700 dark:text-rose-400">{err}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import type { AdminBeacon } from "@spacescrypt/protocol";
+import { BeaconStatusBadge, Card, ErrorBox, FieldRow, Spinner } from "../components/ui";
+import { useAdminGet } from "./api";
+
+export default function BeaconsPage() {
+  const { data, error, loading, reload } = useAdminGet<{ beacons: AdminBeacon[] }>("/api/admin/beacons");
+  const [selected, setSelected] = useState("");
+  const beacons = data?.beacons ?? [];
+  const current = beacons.find(b => b.beaconIdHex === selected);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <div className="lg:col-span-2">
+        <Card
+          title="Beacons"
+          subtitle={`${beacons.length} registered`}
+          actions={
+            <button onClick={reload} disabled={loading} className="inline-flex items-center gap-2 rounded-xl border border-zinc-300 dark:border-zinc-700 px-3 py-1.5 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50">
+              {loading && <Spinner className="h-4 w-4" />}Refresh
+            </button>
+          }
+        >
+          {error && <ErrorBox message={error} />}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-zinc-500">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Label</th>
+                  <th className="py-2 pr-4 font-medium">Beacon ID</th>
+                  <th className="py-2 pr-4 font-medium">Site</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Keys</th>
+                  <th className="py-2 font-medium">Tags</th>
+                </tr>
+              </thead>
+              <tbody>
+                {beacons.map(b => (
+                  <tr
+                    key={b.beaconIdHex}
+                    onClick={() => setSelected(b.beaconIdHex)}
+                    className={`cursor-pointer border-t border-zinc-100 dark:border-zinc-800 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 ${b.beaconIdHex === selected ? "bg-indigo-50/60 dark:bg-indigo-500/10" : ""}`}
+                  >
+                    <td className="py-2 pr-4">{b.label || "—"}</td>
+                    <td className="py-2 pr-4 font-mono text-[13px]">{b.beaconIdHex}</td>
+                    <td className="py-2 pr-4">{b.site || "—"}</td>
+                    <td className="py-2 pr-4"><BeaconStatusBadge status={b.status} /></td>
+                    <td className="py-2 pr-4">{b.keys.filter(k => !k.revoked).length} / {b.keys.length}</td>
+                    <td className="py-2 text-zinc-500">{b.tags?.join(", ") || "—"}</td>
+                  </tr>
+                ))}
+                {!beacons.length && !loading && (
+                  <tr><td colSpan={6} className="py-6 text-center text-zinc-500">No beacons registered</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+
+      <Card title={current?.label || "Beacon"} subtitle={current ? current.beaconIdHex : "Select a beacon"}>
+        {current && (
+          <div className="space-y-4">
+            <div>
+              <FieldRow label="Beacon ID" value={current.beaconIdHex} mono copy />
+              <FieldRow label="Label" value={current.label ?? ""} />
+              <FieldRow label="Site" value={current.site ?? ""} />
+              <FieldRow label="Location" value={current.location ? `${current.location.lat}, ${current.location.lon}` : ""} mono />
+              <FieldRow label="Status" value={current.status} />
+              <FieldRow label="Message formats" value={(current.msgVersions ?? [1, 2]).map(v => `v${v}`).join(", ")} />
+              <FieldRow label="Key algorithm" value={current.alg === "p256" ? "ECDSA P-256" : "Ed25519"} />
+              <FieldRow label="Tags" value={current.tags?.join(", ") ?? ""} />
+            </div>
+            <div>
+              <div className="text-sm font-medium mb-2">Keys</div>
+              <ul className="space-y-2">
+                {current.keys.map(k => (
+                  <li key={k.publicKeyHex} className="rounded-xl border border-zinc-200 dark:border-zinc-800 p-3 text-xs">
+                    <div className="font-mono break-all">{k.publicKeyHex}</div>
+                    <div className="mt-1 text-zinc-500">
+                      {k.revoked ? "revoked" : `${k.notBefore ?? "−∞"} → ${k.notAfter ?? "∞"}`}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="flex gap-3 text-sm">
+              <Link to={`../history?beaconIdHex=${current.beaconIdHex}`} className="text-indigo-600 hover:underline">History</Link>
+              <Link to={`../charts?beaconIdHex=${current.beaconIdHex}`} className="text-indigo-600 hover:underline">Charts</Link>
+              <Link to={`../live?beaconIdHex=${current.beaconIdHex}`} className="text-indigo-600 hover:underline">Live</Link>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
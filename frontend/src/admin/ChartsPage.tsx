@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { AdminBeacon, VerificationBucket } from "@spacescrypt/protocol";
+import { BeaconStatusBadge, Card, ErrorBox, Spinner } from "../components/ui";
+import { formatTime, useAdminGet } from "./api";
+
+const RANGES = {
+  "24h": { spanMs: 24 * 3_600_000, bucket: "hour", bucketMs: 3_600_000 },
+  "7d": { spanMs: 7 * 86_400_000, bucket: "hour", bucketMs: 3_600_000 },
+  "30d": { spanMs: 30 * 86_400_000, bucket: "day", bucketMs: 86_400_000 },
+} as const;
+type RangeKey = keyof typeof RANGES;
+
+// Buckets are aligned to epoch multiples of bucketMs, like the API's
+function windowFor(range: RangeKey, nowMs = Date.now()) {
+  const { spanMs, bucketMs } = RANGES[range];
+  return { range, fromMs: Math.floor((nowMs - spanMs) / bucketMs + 1) * bucketMs, toMs: nowMs };
+}
+
+export default function ChartsPage() {
+  const [params] = useSearchParams();
+  const only = params.get("beaconIdHex")?.toLowerCase();
+  const [win, setWin] = useState(() => windowFor("24h"));
+  const { data, error } = useAdminGet<{ beacons: AdminBeacon[] }>("/api/admin/beacons");
+  const beacons = (data?.beacons ?? []).filter(b => !only || b.beaconIdHex === only);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(RANGES) as RangeKey[]).map(r => (
+          <button
+            key={r}
+            onClick={() => setWin(windowFor(r))}
+            className={`rounded-lg px-3 py-1.5 text-sm font-medium ${win.range === r ? "bg-indigo-600 text-white" : "border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800"}`}
+          >
+            Last {r}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-3 text-xs text-zinc-500">
+          <span className="inline-flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-emerald-500" />Verified</span>
+          <span className="inline-flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-rose-500" />Not verified</span>
+        </div>
+      </div>
+      {error && <ErrorBox message={error} />}
+      <div className={`grid gap-6 ${only ? "" : "md:grid-cols-2 xl:grid-cols-3"}`}>
+        {beacons.map(b => <BeaconChart key={b.beaconIdHex} beacon={b} win={win} />)}
+      </div>
+    </div>
+  );
+}
+
+function BeaconChart({ beacon, win }: { beacon: AdminBeacon; win: ReturnType<typeof windowFor> }) {
+  const { bucket, bucketMs } = RANGES[win.range];
+  const { data, error, loading } = useAdminGet<{ buckets: VerificationBucket[] }>(
+    `/api/verifications/stats?beaconIdHex=${beacon.beaconIdHex}&bucket=${bucket}&from=${win.fromMs}&to=${win.toMs}`
+  );
+
+  // The API omits empty buckets; the chart shows every one in the window
+  const counts = new Map((data?.buckets ?? []).map(b => [b.startMs, b]));
+  const series: VerificationBucket[] = [];
+  for (let t = win.fromMs; t <= win.toMs; t += bucketMs) series.push(counts.get(t) ?? { startMs: t, ok: 0, fail: 0 });
+  const ok = series.reduce((n, b) => n + b.ok, 0);
+  const fail = series.reduce((n, b) => n + b.fail, 0);
+
+  return (
+    <Card
+      title={beacon.label || beacon.beaconIdHex}
+      subtitle={beacon.label ? beacon.beaconIdHex : beacon.site}
+      actions={<BeaconStatusBadge status={beacon.status} />}
+    >
+      {error ? <ErrorBox message={error} /> : loading && !data ? <Spinner /> : (
+        <div className="space-y-3">
+          <div className="flex gap-4 text-sm">
+            <span><span className="font-semibold text-emerald-700 dark:text-emerald-400">{ok}</span> verified</span>
+            <span><span className="font-semibold text-rose-700 dark:text-rose-400">{fail}</span> not verified</span>
+            <span className="ml-auto text-zinc-500">{ok + fail ? `${Math.round((ok / (ok + fail)) * 100)}% success` : "no traffic"}</span>
+          </div>
+          <BarChart series={series} />
+          <div className="flex justify-between text-[11px] text-zinc-500">
+            <span>{formatTime(win.fromMs)}</span>
+            <span>now</span>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// Stacked bars, failures on top; hover a bar for its counts
+function BarChart({ series }: { series: VerificationBucket[] }) {
+  const H = 100;
+  const max = Math.max(1, ...series.map(b => b.ok + b.fail));
+  return (
+    <svg viewBox={`0 0 ${series.length * 10} ${H}`} preserveAspectRatio="none" className="h-32 w-full rounded-lg bg-zinc-50 dark:bg-zinc-900/40">
+      {series.map((b, i) => {
+        const okH = (b.ok / max) * H;
+        const failH = (b.fail / max) * H;
+        return (
+          <g key={b.startMs}>
+            <title>{`${formatTime(b.startMs)}: ${b.ok} verified, ${b.fail} not verified`}</title>
+            <rect x={i * 10 + 1} y={H - okH} width={8} height={okH} className="fill-emerald-500" />
+            <rect x={i * 10 + 1} y={H - okH - failH} width={8} height={failH} className="fill-rose-500" />
+            {/* Full-height hit area so empty buckets show their tooltip too */}
+            <rect x={i * 10} y={0} width={10} height={H} fill="transparent" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, type FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { VerificationRecord } from "@spacescrypt/protocol";
+import { API } from "../config";
+import { Card, ErrorBox, Spinner, StatusPill } from "../components/ui";
+import { adminFetch, formatTime, useAdmin, useAdminGet } from "./api";
+
+type Page = { items: VerificationRecord[]; nextCursor: string | null };
+
+const FILTERS = ["beaconIdHex", "tenantId", "result", "from", "to"] as const;
+type Filters = Record<(typeof FILTERS)[number], string>;
+
+// datetime-local inputs are in local time; the URL and API get epoch ms
+function msToLocalInput(ms: string): string {
+  if (!ms) return "";
+  const d = new Date(Number(ms));
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+function localInputToMs(v: string): string {
+  return v ? String(new Date(v).getTime()) : "";
+}
+
+export default function HistoryPage() {
+  const [params, setParams] = useSearchParams();
+  const applied = Object.fromEntries(FILTERS.map(f => [f, params.get(f) ?? ""])) as Filters;
+  const [draft, setDraft] = useState<Filters>(applied);
+
+  const query = new URLSearchParams(Object.entries(applied).filter(([, v]) => v)).toString();
+
+  function apply(e: FormEvent) {
+    e.preventDefault();
+    setParams(Object.fromEntries(Object.entries(draft).filter(([, v]) => v)));
+  }
+  function clear() {
+    setDraft(Object.fromEntries(FILTERS.map(f => [f, ""])) as Filters);
+    setParams({});
+  }
+
+  const input = "rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-3 py-1.5 text-sm";
+
+  return (
+    <Card title="Verification history" subtitle="Newest first. Filters are kept in the URL.">
+      <form onSubmit={apply} className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          Beacon ID
+          <input value={draft.beaconIdHex} onChange={e => setDraft({ ...draft, beaconIdHex: e.target.value.trim() })} placeholder="16 hex chars" className={`${input} font-mono w-48`} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          Tenant
+          <input value={draft.tenantId} onChange={e => setDraft({ ...draft, tenantId: e.target.value.trim() })} className={`${input} w-40`} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          Result
+          <select value={draft.result} onChange={e => setDraft({ ...draft, result: e.target.value })} className={input}>
+            <option value="">Any</option>
+            <option value="ok">Verified</option>
+            <option value="fail">Not verified</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          From
+          <input type="datetime-local" value={msToLocalInput(draft.from)} onChange={e => setDraft({ ...draft, from: localInputToMs(e.target.value) })} className={input} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-zinc-500">
+          To
+          <input type="datetime-local" value={msToLocalInput(draft.to)} onChange={e => setDraft({ ...draft, to: localInputToMs(e.target.value) })} className={input} />
+        </label>
+        <button type="submit" className="rounded-xl bg-indigo-600 px-4 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700">Apply</button>
+        <button type="button" onClick={clear} className="rounded-xl border border-zinc-300 dark:border-zinc-700 px-4 py-1.5 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800">Clear</button>
+        <ExportButton query={query} />
+      </form>
+      {/* Remount on new filters so extra pages start over */}
+      <Results key={query} query={query} />
+    </Card>
+  );
+}
+
+function Results({ query }: { query: string }) {
+  const { token } = useAdmin();
+  const { data, error, loading } = useAdminGet<Page>(`/api/verifications?limit=50${query ? `&${query}` : ""}`);
+  const [more, setMore] = useState<Page[]>([]);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [moreError, setMoreError] = useState("");
+
+  const pages = data ? [data, ...more] : [];
+  const items = pages.flatMap(p => p.items);
+  const nextCursor = pages.length ? pages[pages.length - 1].nextCursor : null;
+
+  async function loadMore() {
+    try {
+      setLoadingMore(true); setMoreError("");
+      const page = await adminFetch<Page>(token, `/api/verifications?limit=50&cursor=${nextCursor}${query ? `&${query}` : ""}`);
+      setMore(m => [...m, page]);
+    } catch (e) {
+      setMoreError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  if (error) return <ErrorBox message={error} />;
+  if (loading && !data) return <Spinner />;
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-zinc-500">
+            <tr>
+              <th className="py-2 pr-4 font-medium">Time</th>
+              <th className="py-2 pr-4 font-medium">Beacon</th>
+              <th className="py-2 pr-4 font-medium">Result</th>
+              <th className="py-2 pr-4 font-medium">Error</th>
+              <th className="py-2 pr-4 font-medium">Format</th>
+              <th className="py-2 pr-4 font-medium">Nonce source</th>
+              <th className="py-2 pr-4 font-medium">Tenant</th>
+              <th className="py-2 font-medium">Client IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(r => (
+              <tr key={r.id} className="border-t border-zinc-100 dark:border-zinc-800">
+                <td className="py-2 pr-4 whitespace-nowrap">{formatTime(r.serverTimeMs)}</td>
+                <td className="py-2 pr-4 font-mono text-[13px]">{r.beaconIdHex ?? "—"}</td>
+                <td className="py-2 pr-4"><StatusPill state={r.result === "ok" ? "ok" : "bad"} /></td>
+                <td className="py-2 pr-4 font-mono text-[13px]">{r.error ?? ""}</td>
+                <td className="py-2 pr-4">v{r.msgVersion}</td>
+                <td className="py-2 pr-4">{r.nonceSource ?? "—"}</td>
+                <td className="py-2 pr-4">{r.tenantId ?? "—"}</td>
+                <td className="py-2 font-mono text-[13px]">{r.clientIp ?? "—"}</td>
+              </tr>
+            ))}
+            {!items.length && (
+              <tr><td colSpan={8} className="py-6 text-center text-zinc-500">No verifications match</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {moreError && <ErrorBox message={moreError} />}
+      {nextCursor && (
+        <button onClick={loadMore} disabled={loadingMore} className="inline-flex items-center gap-2 rounded-xl border border-zinc-300 dark:border-zinc-700 px-4 py-1.5 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50">
+          {loadingMore && <Spinner className="h-4 w-4" />}Load more
+        </button>
+      )}
+    </div>
+  );
+}
+
+// The export needs the Authorization header, so it cannot be a plain link
+function ExportButton({ query }: { query: string }) {
+  const { token } = useAdmin();
+  const [busy, setBusy] = useState(false);
+
+  async function download() {
+    setBusy(true);
+    try {
+      const r = await fetch(`${API}/api/verifications?format=csv${query ? `&${query}` : ""}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!r.ok) throw new Error(`export failed: ${r.status}`);
+      const url = URL.createObjectURL(await r.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "verifications.csv";
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <button type="button" onClick={download} disabled={busy} className="ml-auto inline-flex items-center gap-2 rounded-xl border border-zinc-300 dark:border-zinc-700 px-4 py-1.5 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50">
+      {busy && <Spinner className="h-4 w-4" />}Export CSV
+    </button>
+  );
+}
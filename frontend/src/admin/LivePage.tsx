@@ -0,0 +1,105 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { LiveEvent } from "@spacescrypt/protocol";
+import { API } from "../config";
+import { Card, Dot, StatusPill } from "../components/ui";
+import { formatTime, useAdmin } from "./api";
+
+const KEEP = 200;
+
+type ConnState = "connecting" | "open" | "closed";
+
+export default function LivePage() {
+  const { token } = useAdmin();
+  const [params, setParams] = useSearchParams();
+  const beaconFilter = params.get("beaconIdHex") ?? "";
+  const [draft, setDraft] = useState(beaconFilter);
+  const [events, setEvents] = useState<LiveEvent[]>([]);
+  const [conn, setConn] = useState<ConnState>("connecting");
+  const [gap, setGap] = useState(false);
+
+  useEffect(() => {
+    // EventSource cannot send an Authorization header; the API takes the
+    // token as ?access_token= on this route. It reconnects on its own and
+    // resumes from the last event id it saw.
+    const q = new URLSearchParams({ access_token: token });
+    if (beaconFilter) q.set("beaconIdHex", beaconFilter);
+    const es = new EventSource(`${API}/api/events?${q}`);
+    const onEvent = (m: MessageEvent) => {
+      const e = JSON.parse(m.data) as LiveEvent;
+      setEvents(prev => [e, ...prev].slice(0, KEEP));
+    };
+    setConn("connecting");
+    setGap(false);
+    es.onopen = () => setConn("open");
+    es.onerror = () => setConn(es.readyState === EventSource.CLOSED ? "closed" : "connecting");
+    es.addEventListener("nonce.issued", onEvent);
+    es.addEventListener("verification", onEvent);
+    es.addEventListener("beacon.alert", onEvent);
+    es.addEventListener("gap", () => setGap(true));
+    return () => es.close();
+  }, [token, beaconFilter]);
+
+  function apply(e: FormEvent) {
+    e.preventDefault();
+    setEvents([]);
+    setParams(draft ? { beaconIdHex: draft } : {});
+  }
+
+  const dot = conn === "open" ? "bg-emerald-500" : conn === "connecting" ? "bg-amber-500" : "bg-rose-500";
+
+  return (
+    <Card
+      title="Live activity"
+      subtitle="Nonce issuances, verification outcomes and beacon health alerts as they happen"
+      actions={
+        <div className="flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+          <Dot className={dot} />
+          {conn === "open" ? "Connected" : conn === "connecting" ? "Connecting…" : "Disconnected"}
+        </div>
+      }
+    >
+      <form onSubmit={apply} className="flex flex-wrap items-center gap-3 mb-4">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value.trim())}
+          placeholder="Beacon ID(s), comma-separated"
+          className="rounded-xl border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 px-3 py-1.5 font-mono text-sm w-80"
+        />
+        <button type="submit" className="rounded-xl bg-indigo-600 px-4 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700">Filter</button>
+        <button type="button" onClick={() => setEvents([])} className="rounded-xl border border-zinc-300 dark:border-zinc-700 px-4 py-1.5 text-sm font-medium hover:bg-zinc-50 dark:hover:bg-zinc-800">Clear</button>
+      </form>
+      {gap && (
+        <p className="mb-4 rounded-xl bg-amber-50 dark:bg-amber-950/40 px-4 py-2 text-sm text-amber-800 dark:text-amber-300">
+          Some events were missed while disconnected; see History for the full record.
+        </p>
+      )}
+      <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+        {events.map(e => (
+          <li key={e.id} className="py-2 flex flex-wrap items-center gap-3 text-sm">
+            <span className="w-44 text-zinc-500 whitespace-nowrap">{formatTime(e.atMs)}</span>
+            <span className="font-mono text-[13px]">{e.beaconIdHex ?? "—"}</span>
+            {e.type === "verification" ? (
+              <>
+                <StatusPill state={e.data.result === "ok" ? "ok" : "bad"} />
+                {e.data.error && <span className="font-mono text-[13px] text-rose-700 dark:text-rose-400">{e.data.error}</span>}
+              </>
+            ) : e.type === "beacon.alert" ? (
+              e.data.resolvedAtMs === null ? (
+                <span className="rounded-full bg-amber-100 px-2.5 py-1 text-xs font-medium text-amber-800">Alert · {e.data.message}</span>
+              ) : (
+                <span className="rounded-full bg-emerald-100 px-2.5 py-1 text-xs font-medium text-emerald-700">Resolved · {e.data.kind.replace("_", " ")}</span>
+              )
+            ) : (
+              <span className="rounded-full bg-indigo-100 px-2.5 py-1 text-xs font-medium text-indigo-700">
+                Nonce issued · {e.data.source}{e.data.pool !== "hit" ? ` (${e.data.pool})` : ""}
+              </span>
+            )}
+            {e.tenantId && <span className="ml-auto text-xs text-zinc-500">{e.tenantId}</span>}
+          </li>
+        ))}
+        {!events.length && <li className="py-6 text-center text-zinc-500 text-sm">Waiting for activity…</li>}
+      </ul>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+import { useOutletContext } from "react-router-dom";
+import { API } from "../config";
+
+// ====== Credential ======
+// The API's ADMIN_TOKEN. Kept for the browser session only, never in localStorage.
+const TOKEN_KEY = "spacescrypt.adminToken";
+
+export function loadAdminToken(): string {
+  return sessionStorage.getItem(TOKEN_KEY) ?? "";
+}
+export function saveAdminToken(token: string) {
+  if (token) sessionStorage.setItem(TOKEN_KEY, token);
+  else sessionStorage.removeItem(TOKEN_KEY);
+}
+
+// Handed from AdminLayout to every admin page through <Outlet context>
+export type AdminContext = { token: string; signOut: () => void };
+
+export function useAdmin(): AdminContext {
+  return useOutletContext<AdminContext>();
+}
+
+export class AdminApiError extends Error {
+  constructor(readonly status: number, readonly code: string) {
+    super(`${code} (HTTP ${status})`);
+  }
+}
+
+export async function adminFetch<T>(token: string, path: string, init?: RequestInit): Promise<T> {
+  const r = await fetch(`${API}${path}`, {
+    ...init,
+    headers: { ...init?.headers, Authorization: `Bearer ${token}` },
+  });
+  if (!r.ok) {
+    const body = await r.json().catch(() => ({}));
+    throw new AdminApiError(r.status, body.error || r.statusText);
+  }
+  return r.json();
+}
+
+// GET `path` whenever it changes; null skips the request. A 401 signs out.
+export function useAdminGet<T>(path: string | null) {
+  const { token, signOut } = useAdmin();
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [nonce, setNonce] = useState(0);
+
+  useEffect(() => {
+    if (!path) return;
+    let cancelled = false;
+    setLoading(true);
+    setError("");
+    adminFetch<T>(token, path)
+      .then(d => { if (!cancelled) setData(d); })
+      .catch(e => {
+        if (cancelled) return;
+        if (e instanceof AdminApiError && e.status === 401) signOut();
+        setError(e?.message || String(e));
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [token, path, nonce, signOut]);
+
+  const reload = useCallback(() => setNonce(n => n + 1), []);
+  return { data, error, loading, reload };
+}
+
+export function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString();
+}
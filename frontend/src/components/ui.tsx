@@ -0,0 +1,122 @@
+import React, { useState, type ReactNode } from "react";
+import type { BeaconStatus } from "@spacescrypt/protocol";
+
+// Shared by the presence screen and the admin area
+
+type FieldRowProps = {
+  label: string;
+  value: string;
+  mono?: boolean;
+  copy?: boolean;
+};
+
+export function IconCheck(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" {...props}>
+      <path d="M20 6L9 17l-5-5"/>
+    </svg>
+  );
+}
+export function IconX(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" {...props}>
+      <path d="M18 6L6 18M6 6l12 12"/>
+    </svg>
+  );
+}
+export function IconLink(props: React.SVGProps<SVGSVGElement>) {
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" {...props}>
+      <path d="M10 13a5 5 0 007.07 0l1.41-1.41a5 5 0 00-7.07-7.07L10 5"/>
+      <path d="M14 11a5 5 0 00-7.07 0L5.5 12.43a5 5 0 007.07 7.07L14 19"/>
+    </svg>
+  );
+}
+export function Spinner({ className = "" }: { className?: string }) {
+  return (
+    <div className={`inline-block h-5 w-5 animate-spin rounded-full border-2 border-current border-t-transparent ${className}`} />
+  );
+}
+export function CopyButton({ text, className = "" }: { text: string; className?: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(text);
+          setCopied(true);
+          setTimeout(() => setCopied(false), 1200);
+        } catch {}
+      }}
+      className={`text-xs px-2 py-1 rounded-md border border-zinc-300/60 hover:bg-zinc-50 active:scale-[0.98] transition ${className}`}
+    >
+      {copied ? "Copied" : "Copy"}
+    </button>
+  );
+}
+export function FieldRow({ label, value, mono, copy }: FieldRowProps) {
+  return (
+    <div className="grid grid-cols-3 gap-3 py-2 items-start">
+      <div className="col-span-1 text-sm text-zinc-500 select-none">{label}</div>
+      <div className="col-span-2 flex items-center gap-2">
+        <div className={`min-h-[24px] break-all ${mono ? "font-mono text-[13px]" : ""}`}>{value || "—"}</div>
+        {copy && value && <CopyButton text={value} />}
+      </div>
+    </div>
+  );
+}
+export function StatusPill({ state }: { state: "idle" | "ok" | "bad" | "loading" }) {
+  const map: Record<string, string> = {
+    idle: "bg-zinc-100 text-zinc-700",
+    ok: "bg-emerald-100 text-emerald-700",
+    bad: "bg-rose-100 text-rose-700",
+    loading: "bg-indigo-100 text-indigo-700",
+  };
+  const label = state === "idle" ? "—" : state === "ok" ? "Verified" : state === "bad" ? "Not verified" : "Verifying";
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-medium ${map[state]}`}>
+      {state === "ok" && <IconCheck className="h-4 w-4" />}
+      {state === "bad" && <IconX className="h-4 w-4" />}
+      {state === "loading" && <Spinner className="h-4 w-4 border-[2px]" />}
+      {label}
+    </span>
+  );
+}
+
+export function Dot({ className = "" }: { className?: string }) {
+  return <div className={`h-2 w-2 rounded-full ${className}`} />;
+}
+
+export function BeaconStatusBadge({ status }: { status: BeaconStatus }) {
+  const map: Record<BeaconStatus, string> = {
+    active: "bg-emerald-100 text-emerald-700",
+    maintenance: "bg-amber-100 text-amber-800",
+    retired: "bg-zinc-200 text-zinc-600",
+  };
+  return <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${map[status]}`}>{status}</span>;
+}
+
+// Titled panel in the style of the presence card
+export function Card({ title, subtitle, actions, children }: { title: string; subtitle?: string; actions?: ReactNode; children: ReactNode }) {
+  return (
+    <div className="rounded-2xl border border-zinc-200 dark:border-zinc-800 bg-white/80 dark:bg-zinc-900/70 shadow-xl shadow-zinc-800/5 backdrop-blur overflow-hidden">
+      <div className="border-b border-zinc-100 dark:border-zinc-800 bg-gradient-to-r from-indigo-50/70 via-sky-50/70 to-emerald-50/70 dark:from-indigo-500/10 dark:via-sky-500/10 dark:to-emerald-500/10 px-6 py-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-base font-semibold">{title}</h2>
+          {subtitle && <p className="text-sm text-zinc-600 dark:text-zinc-400">{subtitle}</p>}
+        </div>
+        {actions}
+      </div>
+      <div className="p-6">{children}</div>
+    </div>
+  );
+}
+
+export function ErrorBox({ message }: { message: string }) {
+  return (
+    <div className="rounded-xl border border-rose-200 dark:border-rose-900/50 bg-rose-50 dark:bg-rose-950/40 p-4">
+      <div className="font-semibold text-rose-800 dark:text-rose-300">Error</div>
+      <p className="text-sm text-rose-700 dark:text-rose-400 mt-1">{message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+import { createApiClient } from "@spacescrypt/protocol";
+
+export const API = import.meta.env.VITE_API_BASE || "http://localhost:8787";
+export const api = createApiClient({ baseUrl: API });
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig, defaultClientConditions } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwind from "@tailwindcss/vite";
 
@@ -6,4 +6,6 @@ import tailwind from "@tailwindcss/vite";
 export default defineConfig({
   base: '/SpaceScrypt/', 
   plugins: [react(), tailwind()],
-})
\ No newline at end of file
+  // Bundle @spacescrypt/protocol from its TypeScript sources, no build step needed
+  resolve: { conditions: ['source', ...defaultClientConditions] },
+})
@@ -0,0 +1,24 @@
+// protocol/src/ble.ts
+import { be64ToU64String, u64StringTo8BE } from "./bytes.js";
+import { derToRawSig, SIG_LEN } from "./signature.js";
+
+// Beacon reply on SIGN_RESP_UUID: ts_be64(8) || sig(64), the signature being
+// Ed25519 or P-256 r || s. P-256 modules whose SDK only exports DER may send
+// ts_be64(8) || DER ECDSA-Sig-Value instead; see decodeSignResponse.
+export const SIGN_RESP_LEN = 8 + SIG_LEN;
+
+export function encodeSignResponse(tsMs: string, sig: Uint8Array): Uint8Array {
+  if (sig.length !== SIG_LEN) throw new Error("signature must be exactly 64 bytes");
+  const out = new Uint8Array(SIGN_RESP_LEN);
+  out.set(u64StringTo8BE(tsMs), 0);
+  out.set(sig, 8);
+  return out;
+}
+
+// Either layout; a DER signature comes back as r || s
+export function decodeSignResponse(raw: Uint8Array): { tsMs: string; sig: Uint8Array } {
+  if (raw.length === SIGN_RESP_LEN) return { tsMs: be64ToU64String(raw.slice(0, 8)), sig: raw.slice(8) };
+  const sig = raw.length > 8 ? derToRawSig(raw.slice(8)) : undefined;
+  if (!sig) throw new Error(`sign response must be ${SIGN_RESP_LEN} bytes or a timestamp and DER signature, got ${raw.length}`);
+  return { tsMs: be64ToU64String(raw.slice(0, 8)), sig };
+}
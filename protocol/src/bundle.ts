@@ -0,0 +1,50 @@
+// protocol/src/bundle.ts
+import type { MsgVersion } from "./message.js";
+import type { BeaconAlg } from "./signature.js";
+
+// Self-contained record of one verified proof, for re-checking it years later
+// without the API: the signed proof, where its nonce's randomness came from,
+// the beacon key that verified it, the server's verdict (its attestation
+// token), and, once the attestation is in a published tree head, the
+// transparency log proof. The attestation keys are snapshotted too; auditors
+// should still pin /.well-known/jwks.json rather than trust the copy.
+export const PROOF_BUNDLE_FORMAT = "spacescrypt/proof-bundle";
+export const PROOF_BUNDLE_VERSIONS = [1] as const;
+export type ProofBundleVersion = (typeof PROOF_BUNDLE_VERSIONS)[number];
+
+export type BundleJwks = { keys: { kid: string; kty: string; crv?: string; alg?: string; use?: string; x?: string }[] };
+
+export type ProofBundle = {
+  format: typeof PROOF_BUNDLE_FORMAT;
+  version: ProofBundleVersion;
+  createdAtMs: number;
+  proof: {
+    beaconIdHex: string;
+    nonceHex: string;
+    tsMs: string;
+    sigHex: string;
+    msgVersion: MsgVersion;
+    sessionHex?: string;
+  };
+  // Randomness provenance as recorded when the nonce was issued
+  nonce: { source: string | null; receipt: Record<string, unknown> | null };
+  // The beacon key the signature verified with, as registered at bundle time
+  beaconKey: {
+    alg: BeaconAlg;
+    publicKeyHex: string;
+    notBefore?: string;
+    notAfter?: string;
+    revoked?: boolean;  // revoked by the time the bundle was made
+  };
+  verification: {
+    verificationId: number;
+    result: "ok";
+    verifiedAtMs: number;
+    attestation: string | null;  // null for verifications older than the transparency log
+  };
+  log?: {
+    sth: { treeSize: number; rootHash: string; timestampMs: number; signature: string };
+    proof: { leafIndex: number; leafHash: string; treeSize: number; auditPath: string[] };
+  };
+  jwks: BundleJwks;
+};
@@ -0,0 +1,31 @@
+// protocol/src/bytes.ts
+export function hexToBytes(h: string): Uint8Array {
+  const hex = h.toLowerCase();
+  if (!/^[0-9a-f]*$/.test(hex) || hex.length % 2) {
+    throw new Error("invalid hex");
+  }
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+export function bytesToHex(b: ArrayBuffer | Uint8Array): string {
+  const u8 = b instanceof Uint8Array ? b : new Uint8Array(b);
+  return Array.from(u8).map(x => x.toString(16).padStart(2, "0")).join("");
+}
+
+// Convert a decimal ms string to 8-byte big-endian
+export function u64StringTo8BE(msStr: string): Uint8Array {
+  const n = BigInt(msStr);
+  const out = new Uint8Array(8);
+  for (let i = 7; i >= 0; i--) out[i] = Number((n >> BigInt((7 - i) * 8)) & 0xffn);
+  return out;
+}
+
+// Inverse of u64StringTo8BE
+export function be64ToU64String(b: Uint8Array): string {
+  if (b.length !== 8) throw new Error("ts must be 8 bytes");
+  let n = 0n;
+  for (let i = 0; i < 8; i++) n = (n << 8n) | BigInt(b[i]);
+  return n.toString();
+}
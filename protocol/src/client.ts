@@ -0,0 +1,81 @@
+// protocol/src/client.ts
+import type { ProofBundle } from "./bundle.js";
+import type {
+  NonceQuery, NonceResponse, PublicBeacon, PublicZone, VerifyRequest, VerifyResponse, ZoneVerifyRequest, ZoneVerifyResponse,
+} from "./types.js";
+
+// Any answer the route does not return as a value: 401/403 from API key
+// checks, 429 rate limits, 5xx. `code` is the body's error code when it had
+// one; `body` keeps the rest (e.g. retryAfterS).
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly code: string, readonly body?: unknown) {
+    super(code);
+    this.name = "ApiError";
+  }
+}
+
+export type ApiClientOptions = {
+  baseUrl: string;
+  apiKey?: string;             // sent as X-Api-Key
+  fetch?: typeof fetch;
+};
+
+// Typed fetch client for the public routes. A verification verdict, failed or
+// not, is a value ({ ok: false, error }); unknown beacons and zones are null.
+export function createApiClient(opts: ApiClientOptions) {
+  const base = opts.baseUrl.replace(/\/+$/, "");
+  const doFetch = opts.fetch ?? fetch;
+
+  // Statuses in `answers` return their body; other non-2xx throw ApiError
+  async function call<T>(path: string, init: RequestInit = {}, answers: number[] = []): Promise<T> {
+    const headers: Record<string, string> = { ...(init.body !== undefined && { "Content-Type": "application/json" }) };
+    if (opts.apiKey) headers["X-Api-Key"] = opts.apiKey;
+    const r = await doFetch(base + path, { ...init, headers });
+    const body = await r.json().catch(() => undefined);
+    if (r.ok || answers.includes(r.status)) return body as T;
+    const code = typeof body?.error === "string" ? body.error : `http_${r.status}`;
+    throw new ApiError(r.status, code, body);
+  }
+
+  const post = (body: unknown): RequestInit => ({ method: "POST", body: JSON.stringify(body) });
+
+  return {
+    nonce(q: NonceQuery = {}): Promise<NonceResponse> {
+      const qs = new URLSearchParams(Object.entries(q).filter((e): e is [string, string] => e[1] !== undefined));
+      return call(`/api/nonce${qs.size ? `?${qs}` : ""}`);
+    },
+
+    verify(req: VerifyRequest): Promise<VerifyResponse> {
+      return call("/api/verify", post(req), [400]);
+    },
+
+    async beacon(beaconIdHex: string): Promise<PublicBeacon | null> {
+      try {
+        return await call(`/api/beacons/${beaconIdHex}`);
+      } catch (e) {
+        if (e instanceof ApiError && e.status === 404) return null;
+        throw e;
+      }
+    },
+
+    async zone(zoneId: string): Promise<PublicZone | null> {
+      try {
+        return await call(`/api/zones/${encodeURIComponent(zoneId)}`);
+      } catch (e) {
+        if (e instanceof ApiError && e.status === 404) return null;
+        throw e;
+      }
+    },
+
+    verifyZone(zoneId: string, req: ZoneVerifyRequest): Promise<ZoneVerifyResponse> {
+      return call(`/api/zones/${encodeURIComponent(zoneId)}/verify`, post(req), [400]);
+    },
+
+    // For an attestation from verify() while it is unexpired
+    proofBundle(attestation: string): Promise<ProofBundle> {
+      return call("/api/bundles", post({ attestation }));
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
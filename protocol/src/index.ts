@@ -0,0 +1,13 @@
+// protocol/src/index.ts
+// Wire format shared by the API and the web app: byte helpers, the messages
+// beacons sign, the BLE sign-response codec, request/response types with
+// their error codes, the proof bundle format, and a typed client for the
+// public routes. No Node or DOM specifics beyond fetch and TextEncoder, so it
+// runs in both.
+export * from "./bytes.js";
+export * from "./message.js";
+export * from "./signature.js";
+export * from "./ble.js";
+export * from "./types.js";
+export * from "./bundle.js";
+export * from "./client.js";
@@ -0,0 +1,49 @@
+// protocol/src/message.ts
+import { hexToBytes, u64StringTo8BE } from "./bytes.js";
+
+// Canonical message: nonce16 || ts_be64
+export function buildMessage(nonceHex: string, tsMs: string): Uint8Array {
+  const nonce = hexToBytes(nonceHex);
+  if (nonce.length !== 16) {
+    throw new Error("nonce must be exactly 16 bytes");
+  }
+  const ts = u64StringTo8BE(tsMs);
+  const msg = new Uint8Array(24); // 16 + 8
+  msg.set(nonce, 0);
+  msg.set(ts, 16);
+  return msg;
+}
+
+// Signed message formats a beacon may speak. v1 is the bare nonce16 || ts_be64
+// above; v2 binds the signature to this application, the beacon and
+// optionally a session:
+//   0x02 || "spacescrypt/presence/v2" || beaconId(8) || nonce(16) || ts_be64(8)
+//        || 0x00                          (no session)
+//        || 0x01 || session(32)           (e.g. SHA-256 of a user/session id)
+export const MSG_VERSIONS = [1, 2] as const;
+export type MsgVersion = (typeof MSG_VERSIONS)[number];
+export const MSG_V2_TAG = "spacescrypt/presence/v2";
+
+export function buildMessageV2(beaconIdHex: string, nonceHex: string, tsMs: string, sessionHex?: string): Uint8Array {
+  const id = hexToBytes(beaconIdHex);
+  const nonce = hexToBytes(nonceHex);
+  const session = sessionHex ? hexToBytes(sessionHex) : undefined;
+  if (id.length !== 8) throw new Error("beacon id must be exactly 8 bytes");
+  if (nonce.length !== 16) throw new Error("nonce must be exactly 16 bytes");
+  if (session && session.length !== 32) throw new Error("session must be exactly 32 bytes");
+  const tag = new TextEncoder().encode(MSG_V2_TAG);
+  const parts = [Uint8Array.of(2), tag, id, nonce, u64StringTo8BE(tsMs), session ? Uint8Array.of(1) : Uint8Array.of(0)];
+  if (session) parts.push(session);
+  const msg = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) { msg.set(p, off); off += p.length; }
+  return msg;
+}
+
+// The bytes a beacon signs for a proof in the given format
+export function buildMessageFor(
+  version: MsgVersion,
+  p: { beaconIdHex: string; nonceHex: string; tsMs: string; sessionHex?: string }
+): Uint8Array {
+  return version === 2 ? buildMessageV2(p.beaconIdHex, p.nonceHex, p.tsMs, p.sessionHex) : buildMessage(p.nonceHex, p.tsMs);
+}
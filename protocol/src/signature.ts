@@ -0,0 +1,45 @@
+// protocol/src/signature.ts
+import { bytesToHex } from "./bytes.js";
+
+// Beacon signature algorithms. Ed25519 keys are 32 bytes. P-256 keys are SEC1
+// points, compressed (33 bytes, 02/03 prefix) or uncompressed (65 bytes, 04);
+// such beacons sign SHA-256 of the message and send the raw r || s (64 bytes)
+// with a low S, so every signature has exactly one accepted encoding.
+export const BEACON_ALGS = ["ed25519", "p256"] as const;
+export type BeaconAlg = (typeof BEACON_ALGS)[number];
+export const SIG_LEN = 64;
+
+// Half the P-256 group order
+const P256_HALF_N = 0x7fffffff800000007fffffffffffffffde737d56d38bcf4279dce5617e3192a8n;
+
+// Shape only; whether a P-256 key is a point on the curve is up to the verifier
+export function publicKeyHexValid(alg: BeaconAlg, publicKeyHex: string): boolean {
+  return alg === "p256"
+    ? /^(0[23][0-9a-f]{64}|04[0-9a-f]{128})$/i.test(publicKeyHex)
+    : /^[0-9a-f]{64}$/i.test(publicKeyHex);
+}
+
+// r || s with s in the lower half of the group order (ECDSA signatures are
+// malleable: (r, n - s) verifies too)
+export function isLowS(sig: Uint8Array): boolean {
+  return sig.length === SIG_LEN && BigInt(`0x${bytesToHex(sig.subarray(32))}`) <= P256_HALF_N;
+}
+
+// SEQUENCE { INTEGER r, INTEGER s } -> r || s, each left-padded to 32 bytes.
+// Undefined unless the input is exactly one such sequence.
+export function derToRawSig(der: Uint8Array): Uint8Array | undefined {
+  if (der.length < 8 || der[0] !== 0x30 || der[1] !== der.length - 2) return undefined;
+  const out = new Uint8Array(SIG_LEN);
+  let off = 2;
+  for (const at of [0, 32]) {
+    if (der[off] !== 0x02) return undefined;
+    const len = der[off + 1];
+    let int = der.slice(off + 2, off + 2 + len);
+    if (!len || int.length !== len) return undefined;
+    while (int.length > 1 && int[0] === 0) int = int.slice(1);
+    if (int.length > 32) return undefined;
+    out.set(int, at + 32 - int.length);
+    off += 2 + len;
+  }
+  return off === der.length ? out : undefined;
+}
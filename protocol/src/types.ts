@@ -0,0 +1,204 @@
+// protocol/src/types.ts
+import type { MsgVersion } from "./message.js";
+import type { BeaconAlg } from "./signature.js";
+
+// Request and response bodies of the public API routes, as the web app and
+// relying parties see them. The API annotates its replies with these types,
+// and its OpenAPI enums are built from the error code lists below, so the two
+// cannot drift apart silently.
+
+// Why /api/verify (and each proof of a batch or zone check-in) failed
+export const VERIFY_ERRORS = [
+  "unknown_beacon", "key_revoked", "no_valid_key",
+  "beacon_not_owned", "beacon_inactive", "beacon_locked", "msg_version_not_allowed",
+  "unknown_nonce", "nonce_expired", "nonce_already_used", "nonce_beacon_mismatch", "nonce_tenant_mismatch", "nonce_session_mismatch",
+  "ts_too_old", "ts_in_future", "ts_before_nonce",
+  "bad_signature",
+] as const;
+export type VerifyErrorCode = (typeof VERIFY_ERRORS)[number];
+
+// Zone proofs turned away before verification; their nonces stay unused
+export const ZONE_PROOF_ERRORS = ["beacon_not_in_zone", "duplicate_beacon", "session_mismatch"] as const;
+export type ZoneProofErrorCode = (typeof ZONE_PROOF_ERRORS)[number];
+
+// 401/403 from X-Api-Key checks and tenant scoping
+export const TENANT_AUTH_ERRORS = ["api_key_required", "invalid_api_key", "api_key_revoked", "origin_not_allowed", "beacon_not_owned"] as const;
+export type TenantAuthErrorCode = (typeof TENANT_AUTH_ERRORS)[number];
+
+// 429; Retry-After (and retryAfterS) say when to come back
+export const RATE_LIMIT_ERRORS = ["rate_limited", "beacon_locked"] as const;
+export type RateLimitErrorCode = (typeof RATE_LIMIT_ERRORS)[number];
+export const RATE_SCOPES = ["ip", "api_key", "beacon"] as const;
+export type RateScope = (typeof RATE_SCOPES)[number];
+
+// 400 for a body that fails the schema, with per-field details
+export type BadRequest = { ok: false; error: "bad_request"; details?: { path: string; message: string }[] };
+export type TenantAuthError = { ok: false; error: TenantAuthErrorCode };
+export type RateLimited = { ok: false; error: RateLimitErrorCode; scope?: RateScope; retryAfterS: number };
+
+export const NONCE_SOURCES = ["orbitport", "ipfs", "csprng", "seeded"] as const;
+export type NonceSource = (typeof NONCE_SOURCES)[number];
+export const POOL_OUTCOMES = ["hit", "miss", "degraded", "disabled"] as const;
+export type PoolOutcome = (typeof POOL_OUTCOMES)[number];
+
+// GET /api/nonce
+export type NonceQuery = { beaconIdHex?: string; sessionHex?: string };
+export type NonceResponse = {
+  nonceHex: string;
+  source: NonceSource;
+  receipt?: Record<string, unknown>;
+  fallbackFrom?: NonceSource[];
+  pool: PoolOutcome;
+};
+
+// One beacon proof, as POSTed to /api/verify and inside batch and zone bodies
+export type Proof = {
+  beaconIdHex: string;
+  nonceHex: string;
+  tsMs: string;            // decimal ms, as signed by the beacon
+  sigHex: string;          // 64 bytes: Ed25519, or P-256 r || s with low S
+  msgVersion?: MsgVersion; // default 1
+  sessionHex?: string;     // v2 only
+};
+
+export type PresenceSession = {
+  sessionId: number;
+  presenceId: string;
+  beaconIdHex: string;
+  tenantId: string | null;
+  startedAtMs: number;
+  lastSeenAtMs: number;
+  endedAtMs: number | null;  // null while open
+  heartbeats: number;
+};
+
+// POST /api/verify
+export type VerifyRequest = Proof & { presenceId?: string };
+export type VerifyResponse =
+  | { ok: true; attestation: string; session?: PresenceSession }
+  | { ok: false; error: VerifyErrorCode }
+  | BadRequest;
+
+export const BEACON_STATUSES = ["active", "maintenance", "retired"] as const;
+export type BeaconStatus = (typeof BEACON_STATUSES)[number];
+
+// GET /api/beacons/:beaconIdHex
+export type PublicBeacon = {
+  beaconIdHex: string;
+  label?: string;
+  site?: string;
+  location?: { lat: number; lon: number };
+  status: BeaconStatus;
+  tags: string[];
+  msgVersions: MsgVersion[];
+  alg: BeaconAlg;
+};
+
+// GET /api/zones/:zoneId
+export type PublicZone = {
+  zoneId: string;
+  name: string;
+  beacons: string[];
+  threshold: number;
+  windowMs: number;
+  createdAtMs?: number;
+};
+
+// POST /api/zones/:zoneId/verify
+export type ZoneVerifyRequest = { sessionHex: string; proofs: Proof[] };
+export type ZoneVerifyResult = { beaconIdHex: string; ok: boolean; error?: VerifyErrorCode | ZoneProofErrorCode };
+type ZoneOutcome = { zoneId: string; present: boolean; threshold: number; beacons: string[]; results: ZoneVerifyResult[] };
+export type ZoneVerifyResponse =
+  | ({ ok: true; attestation: string } & ZoneOutcome)
+  | ({ ok: false; error: "quorum_not_met" } & ZoneOutcome)
+  | BadRequest;
+
+// Admin routes (Authorization: Bearer ADMIN_TOKEN) and the live event stream
+
+// GET /api/admin/beacons: each beacon as in beacons.json v2, with its id.
+// Defaults are left out: no tags, every message format, alg ed25519.
+export type AdminBeaconKey = { publicKeyHex: string; notBefore?: string; notAfter?: string; revoked?: boolean };
+export type AdminBeacon = {
+  beaconIdHex: string;
+  label?: string;
+  site?: string;
+  location?: { lat: number; lon: number };
+  status: BeaconStatus;
+  tags?: string[];
+  msgVersions?: MsgVersion[];
+  alg?: BeaconAlg;
+  keys: AdminBeaconKey[];
+};
+
+// Why an audited verification failed: its verdict, a zone check-in's
+// rejection, or a request that never got that far
+export type VerificationErrorCode = VerifyErrorCode | ZoneProofErrorCode | "bad_request" | "internal_error";
+
+// GET /api/verifications (also its CSV and NDJSON exports)
+export type VerificationRecord = {
+  id: number;
+  serverTimeMs: number;
+  beaconIdHex: string | null;
+  nonceHex: string | null;
+  tsMs: string | null;
+  sigHex: string | null;
+  // Signed message format and the v2 session binding, if any
+  msgVersion: MsgVersion;
+  sessionHex?: string | null;
+  result: "ok" | "fail";
+  error: VerificationErrorCode | null;
+  clientIp: string | null;
+  tenantId?: string | null;
+  zoneId?: string | null;  // set for proofs submitted to a zone check-in
+  // That check-in's session, which the nonce was issued for; sessionHex above
+  // is only what the proof itself signed
+  zoneSessionHex?: string | null;
+  // Randomness provenance of the nonce, when it was found in the ledger
+  nonceSource: string | null;
+  nonceReceipt: Record<string, unknown> | null;
+};
+
+// GET /api/verifications/stats
+export type VerificationBucket = { startMs: number; ok: number; fail: number };
+
+export type NonceIssued = {
+  source: NonceSource;
+  pool: PoolOutcome;
+  fallbackFrom: NonceSource[];  // providers that failed before `source` answered
+};
+
+export type VerificationOutcome = {
+  verificationId: number;
+  beaconIdHex: string;
+  nonceHex: string;
+  tsMs: string;
+  result: "ok" | "fail";
+  error: VerificationErrorCode | null;
+  tenantId: string | null;
+  attestation?: string;  // webhook deliveries only, never on the live stream
+};
+
+// Opened when a beacon's health crosses a threshold, sent again with
+// resolvedAtMs once it recovers
+export const BEACON_ALERT_KINDS = ["clock_drift", "silent", "bad_signatures"] as const;
+export type BeaconAlertKind = (typeof BEACON_ALERT_KINDS)[number];
+export type BeaconAlert = {
+  id: number;
+  beaconIdHex: string;
+  kind: BeaconAlertKind;
+  message: string;
+  openedAtMs: number;
+  resolvedAtMs: number | null;
+};
+
+// GET /api/events (SSE) and /api/events/ws
+export type LiveEvent = {
+  id: number;  // increases by one per event; restarts at 1 with the API process
+  atMs: number;
+  beaconIdHex: string | null;
+  tenantId: string | null;
+} & (
+  | { type: "nonce.issued"; data: NonceIssued }
+  | { type: "verification"; data: VerificationOutcome }
+  | { type: "beacon.alert"; data: BeaconAlert }
+);
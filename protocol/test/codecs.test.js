@@ -0,0 +1,111 @@
+// protocol/test/codecs.test.js — round trips of the wire codecs, run against
+// the compiled package (npm test builds it first)
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  be64ToU64String, buildMessage, buildMessageFor, buildMessageV2, bytesToHex, decodeSignResponse,
+  encodeSignResponse, hexToBytes, MSG_V2_TAG, SIGN_RESP_LEN, u64StringTo8BE,
+} from "../dist/index.js";
+
+const NONCE = "00112233445566778899aabbccddeeff";
+const BEACON = "0123456789abcdef";
+const SESSION = "ab".repeat(32);
+const TS = "1760832000123";
+
+function sig64(first = 0x11) {
+  return Uint8Array.from({ length: 64 }, (_, i) => (first + i) & 0xff);
+}
+
+// Minimal DER ECDSA-Sig-Value for r || s, as P-256 SDKs emit it
+function toDer(raw) {
+  const int = (b) => {
+    let i = 0;
+    while (i < b.length - 1 && b[i] === 0) i++;
+    const v = b.slice(i);
+    return [0x02, ...(v[0] & 0x80 ? [v.length + 1, 0] : [v.length]), ...v];
+  };
+  const body = [...int(raw.slice(0, 32)), ...int(raw.slice(32))];
+  return Uint8Array.from([0x30, body.length, ...body]);
+}
+
+test("hexToBytes and bytesToHex round-trip", () => {
+  for (const hex of ["", "00", "ff00", NONCE, SESSION]) assert.equal(bytesToHex(hexToBytes(hex)), hex);
+  assert.equal(bytesToHex(hexToBytes("ABCDEF")), "abcdef");
+  assert.equal(bytesToHex(new Uint8Array([1, 2, 255]).buffer), "0102ff");
+  assert.throws(() => hexToBytes("abc"), /invalid hex/);
+  assert.throws(() => hexToBytes("zz"), /invalid hex/);
+});
+
+test("u64StringTo8BE and be64ToU64String round-trip", () => {
+  for (const ms of ["0", "1", "255", "256", TS, "9007199254740993", "18446744073709551615"]) {
+    const be = u64StringTo8BE(ms);
+    assert.equal(be.length, 8);
+    assert.equal(be64ToU64String(be), ms);
+  }
+  assert.equal(bytesToHex(u64StringTo8BE("258")), "0000000000000102");
+  assert.throws(() => be64ToU64String(new Uint8Array(7)), /8 bytes/);
+});
+
+test("encodeSignResponse and decodeSignResponse round-trip the raw layout", () => {
+  const sig = sig64();
+  const resp = encodeSignResponse(TS, sig);
+  assert.equal(resp.length, SIGN_RESP_LEN);
+  assert.equal(bytesToHex(resp.slice(0, 8)), bytesToHex(u64StringTo8BE(TS)));
+  const { tsMs, sig: back } = decodeSignResponse(resp);
+  assert.equal(tsMs, TS);
+  assert.deepEqual(back, sig);
+  assert.throws(() => encodeSignResponse(TS, new Uint8Array(63)), /64 bytes/);
+});
+
+test("decodeSignResponse accepts a DER signature and returns r || s", () => {
+  // High bit set (INTEGER needs a 0x00 pad) and leading zero bytes (short INTEGER)
+  const padded = sig64(0x90);
+  const short = sig64();
+  short.fill(0, 0, 3);
+  short.fill(0, 32, 34);
+  for (const sig of [padded, short]) {
+    const der = toDer(sig);
+    const raw = new Uint8Array(8 + der.length);
+    raw.set(u64StringTo8BE(TS), 0);
+    raw.set(der, 8);
+    const { tsMs, sig: back } = decodeSignResponse(raw);
+    assert.equal(tsMs, TS);
+    assert.deepEqual(back, sig);
+  }
+});
+
+test("decodeSignResponse rejects truncated and malformed replies", () => {
+  const resp = encodeSignResponse(TS, sig64());
+  assert.throws(() => decodeSignResponse(resp.slice(0, SIGN_RESP_LEN - 1)));
+  assert.throws(() => decodeSignResponse(resp.slice(0, 8)));
+  const der = toDer(sig64());
+  der[1]++;  // SEQUENCE length no longer matches
+  const raw = new Uint8Array(8 + der.length);
+  raw.set(der, 8);
+  assert.throws(() => decodeSignResponse(raw));
+});
+
+test("buildMessage is nonce16 || ts_be64 and is message v1", () => {
+  const msg = buildMessage(NONCE, TS);
+  assert.equal(bytesToHex(msg), NONCE + bytesToHex(u64StringTo8BE(TS)));
+  assert.deepEqual(buildMessageFor(1, { beaconIdHex: BEACON, nonceHex: NONCE, tsMs: TS }), msg);
+  assert.throws(() => buildMessage("00", TS), /16 bytes/);
+});
+
+test("buildMessageV2 lays out tag, beacon, nonce, ts and no session", () => {
+  const tag = bytesToHex(new TextEncoder().encode(MSG_V2_TAG));
+  const msg = buildMessageV2(BEACON, NONCE, TS);
+  assert.equal(msg.length, 1 + MSG_V2_TAG.length + 8 + 16 + 8 + 1);
+  assert.equal(bytesToHex(msg), "02" + tag + BEACON + NONCE + bytesToHex(u64StringTo8BE(TS)) + "00");
+  assert.deepEqual(buildMessageFor(2, { beaconIdHex: BEACON, nonceHex: NONCE, tsMs: TS }), msg);
+});
+
+test("buildMessageV2 appends a flagged session when given one", () => {
+  const without = buildMessageV2(BEACON, NONCE, TS);
+  const msg = buildMessageV2(BEACON, NONCE, TS, SESSION);
+  assert.equal(msg.length, without.length + 32);
+  assert.equal(bytesToHex(msg), bytesToHex(without.slice(0, -1)) + "01" + SESSION);
+  assert.deepEqual(buildMessageFor(2, { beaconIdHex: BEACON, nonceHex: NONCE, tsMs: TS, sessionHex: SESSION }), msg);
+  assert.throws(() => buildMessageV2(BEACON, NONCE, TS, "ab"), /32 bytes/);
+  assert.throws(() => buildMessageV2("01", NONCE, TS), /8 bytes/);
+});